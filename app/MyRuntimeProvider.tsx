@@ -7,6 +7,12 @@ import {
   type ThreadAssistantContentPart,
 } from '@assistant-ui/react'
 
+const EXECUTION_STATUS_ICONS: Record<string, string> = {
+  completed: '✅',
+  error: '❌',
+  skipped: '⏭️',
+}
+
 const MyModelAdapter: ChatModelAdapter = {
   async *run({ messages, abortSignal }) {
     const response = await fetch('/api/chat', {
@@ -93,10 +99,11 @@ const MyModelAdapter: ChatModelAdapter = {
             parsed.trace?.data
           ) {
             const docs = parsed.trace.data
-              .slice(0, 2)
+              .slice(0, 3)
               .map(
-                (doc: { text: string }) =>
-                  `📚 Found: ${doc.text.slice(0, 100)}...`
+                (doc: { id: string; score: number; explanation?: string }) =>
+                  `📚 Found: ${doc.id} (score ${doc.score})` +
+                  (doc.explanation ? ` — ${doc.explanation}` : '')
               )
               .join('\n')
             reasoningSteps.push(docs)
@@ -133,11 +140,30 @@ const MyModelAdapter: ChatModelAdapter = {
                 text: reasoningSteps.join('\n'),
               })
             }
+          } else if (parsed.trace?.step === 'plan_revision') {
+            const revision = parsed.trace.data
+            reasoningSteps.push(
+              `🔁 Revision ${revision.revision}: ${revision.issues.join('; ')}\n🧠 Plan: ${revision.reasoning}\n📋 Steps: ${revision.steps}`
+            )
+            // Update reasoning content part
+            const reasoningPartIndex = contentParts.findIndex(
+              (part) => part.type === 'reasoning'
+            )
+            if (reasoningPartIndex >= 0) {
+              ;(
+                contentParts[reasoningPartIndex] as unknown as { text: string }
+              ).text = reasoningSteps.join('\n')
+            } else {
+              contentParts.push({
+                type: 'reasoning',
+                text: reasoningSteps.join('\n'),
+              })
+            }
           } else if (parsed.trace?.step === 'execution_complete') {
             const steps = parsed.trace.data
               ?.map(
                 (step: { status: string; step: string }) =>
-                  `${step.status === 'completed' ? '✅' : '❌'} ${step.step}`
+                  `${EXECUTION_STATUS_ICONS[step.status] ?? '❌'} ${step.step}`
               )
               .join('\n')
             reasoningSteps.push(`⚡ Execution:\n${steps}`)
@@ -168,9 +194,34 @@ const MyModelAdapter: ChatModelAdapter = {
               args: toolCall.args || {},
               argsText: JSON.stringify(toolCall.args || {}, null, 2),
               result: toolCall.result,
-              isError: toolCall.status === 'error',
+              isError: toolCall.status !== 'completed',
             })
           }
+        } else if (parsed.type === 'approval_required' && parsed.approval) {
+          // A mutating API call is waiting for the user's approval
+          const approval = parsed.approval
+          contentParts.push({
+            type: 'tool-call',
+            toolCallId: `approval-${approval.approvalId}`,
+            toolName: 'approval_required',
+            args: approval,
+            argsText: JSON.stringify(approval, null, 2),
+          })
+        } else if (parsed.type === 'approval_resolved') {
+          const partIndex = contentParts.findIndex(
+            (part) =>
+              part.type === 'tool-call' &&
+              part.toolCallId === `approval-${parsed.approvalId}`
+          )
+          if (partIndex >= 0) {
+            contentParts[partIndex] = {
+              ...(contentParts[partIndex] as Extract<
+                ThreadAssistantContentPart,
+                { type: 'tool-call' }
+              >),
+              result: { status: parsed.status },
+            }
+          }
         } else if (
           parsed.type === 'error' &&
           typeof parsed.message === 'string'
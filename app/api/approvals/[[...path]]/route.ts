@@ -0,0 +1,11 @@
+import { proxyToAgent } from '@/lib/agent-proxy'
+
+// Proxy approval requests (list pending, inspect, approve or reject) to the
+// deployed Agent Worker endpoint
+export async function GET(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function POST(req: Request) {
+  return proxyToAgent(req)
+}
@@ -0,0 +1,23 @@
+import { proxyToAgent } from '@/lib/agent-proxy'
+
+// Proxy mock API requests (/api/mock/:specId/<path>) to the deployed Agent
+// Worker endpoint, which answers them from the registered OpenAPI specs
+export async function GET(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function POST(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function PUT(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function PATCH(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function DELETE(req: Request) {
+  return proxyToAgent(req)
+}
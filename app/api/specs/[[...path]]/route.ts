@@ -0,0 +1,15 @@
+import { proxyToAgent } from '@/lib/agent-proxy'
+
+// Proxy spec management requests (list, upload, inspect, delete) to the
+// deployed Agent Worker endpoint
+export async function GET(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function POST(req: Request) {
+  return proxyToAgent(req)
+}
+
+export async function DELETE(req: Request) {
+  return proxyToAgent(req)
+}
@@ -1,12 +1,25 @@
 import { Agent } from 'agents'
 import type { Message as VercelMessage } from 'ai'
+import { ApprovalService } from './approval-service'
+import { ModelOverrides } from './config'
 import { DatabaseService } from './database-service'
+import { AgentError, createErrorResponse } from './error-handling'
+import { HttpClient } from './http-client'
+import { createHttpRecorder } from './http-recorder'
+import { LlmProvider } from './llm-provider'
+import { MockApiServer } from './mock-api-server'
 import { PlanningService } from './planning-service'
 import { RagService } from './rag-service'
+import { ResponseCache } from './response-cache'
 import { ResponseGenerationService } from './response-generation-service'
+import { SpecIngestionService } from './spec-ingestion-service'
+import { SpecManagementService } from './spec-management-service'
+import { authRedaction, SpecRegistry } from './spec-registry'
 import { StreamingOrchestrator } from './streaming-orchestrator'
 import { ToolExecutionService } from './tool-execution-service'
 import { Env } from './types'
+import { RequestValidator } from './validation'
+import { createVectorStore } from './vector-store'
 
 // Define the interface inline to avoid circular dependencies
 interface AgentWithEnv {
@@ -25,15 +38,20 @@ interface AgentWithEnv {
  * Main agent class that orchestrates the complete RAG workflow
  *
  * This class coordinates all services to provide agentic AI + RAG capabilities
- * for processing natural language queries and executing API calls to TMDB.
+ * for processing natural language queries and executing API calls against
+ * the APIs held in its spec registry.
  */
 export class OrchestrApiAgent extends Agent<Env> {
   private databaseService!: DatabaseService
+  private specRegistry!: SpecRegistry
   private ragService!: RagService
   private planningService!: PlanningService
   private toolExecutionService!: ToolExecutionService
   private responseGenerationService!: ResponseGenerationService
   private orchestrator!: StreamingOrchestrator
+  private specManagementService!: SpecManagementService
+  private approvalService!: ApprovalService
+  private mockApiServer!: MockApiServer
 
   /**
    * Initializes the agent and all its services
@@ -44,28 +62,88 @@ export class OrchestrApiAgent extends Agent<Env> {
   async onStart() {
     // Initialize services
     this.databaseService = new DatabaseService(this as unknown as AgentWithEnv)
-    this.ragService = new RagService(this.env)
-    this.planningService = new PlanningService(this.env)
-    // For now, we'll use TMDB as the default API
-    // In the future, this could be made configurable based on the request or environment
-    const tmdbOpenApi = await import('../../lib/tmdb-open-api.json')
+    this.specRegistry = SpecRegistry.fromEnv(this.env)
+    // Resolves the model of each pipeline stage
+    const llmProvider = new LlmProvider(this.env)
+    // Shared by ingestion and (for Vectorize) search
+    const vectorStore = createVectorStore(this.env)
+    this.ragService = new RagService(
+      this.env,
+      this.specRegistry,
+      llmProvider,
+      vectorStore
+    )
+    this.planningService = new PlanningService(
+      this.env,
+      this.specRegistry,
+      llmProvider
+    )
+    this.mockApiServer = new MockApiServer(this.specRegistry)
+    // Calls go to the mock server instead of the real APIs
+    const mocked = this.env.MOCK_APIS === 'true'
+    const fetchFn = mocked ? this.mockApiServer.fetch : undefined
+    // Records or replays upstream traffic when HTTP_FIXTURES is set
+    const recorder = createHttpRecorder(
+      this.env,
+      () => {
+        const redactions = this.specRegistry
+          .list()
+          .map((api) => authRedaction(api.auth, this.env))
+        return {
+          secrets: redactions.flatMap((redaction) => redaction.secrets),
+          queryParams: redactions.flatMap((redaction) => redaction.queryParams),
+        }
+      },
+      fetchFn
+    )
     this.toolExecutionService = new ToolExecutionService(
       this.env,
-      tmdbOpenApi.default,
-      'https://api.themoviedb.org/3'
+      this.specRegistry,
+      new HttpClient(recorder?.fetch ?? fetchFn),
+      // Cache hits would be missing from a recording, and cached real
+      // responses would be served in place of replayed or mocked ones
+      recorder || mocked ? undefined : new ResponseCache(this.databaseService)
     )
-    await this.toolExecutionService.initialize()
-    this.responseGenerationService = new ResponseGenerationService(this.env)
+    if (mocked) {
+      console.log('🎭 [MOCK] Sending API calls to the mock server')
+      this.toolExecutionService.overrideBaseUrls((specId) =>
+        this.mockApiServer.baseUrl(specId)
+      )
+    }
+    // Tools for the other registered APIs are built on first use
+    await this.toolExecutionService.initialize(
+      this.specRegistry.resolveSelection().map((api) => api.id)
+    )
+    this.responseGenerationService = new ResponseGenerationService(
+      this.env,
+      llmProvider
+    )
+    this.approvalService = new ApprovalService(this.databaseService)
     this.orchestrator = new StreamingOrchestrator(
       this.ragService,
       this.planningService,
       this.toolExecutionService,
       this.responseGenerationService,
-      this.databaseService
+      this.databaseService,
+      this.specRegistry,
+      this.approvalService
+    )
+
+    this.specManagementService = new SpecManagementService(
+      this.databaseService,
+      this.specRegistry,
+      this.toolExecutionService,
+      new SpecIngestionService(this.specRegistry, vectorStore)
     )
 
     // Initialize database
     await this.databaseService.initialize()
+
+    // Register specs uploaded at runtime
+    await this.specManagementService.loadStoredSpecs()
+
+    // Runs waiting for approval did not survive a restart
+    await this.approvalService.expireStale()
   }
 
   /**
@@ -75,7 +153,11 @@ export class OrchestrApiAgent extends Agent<Env> {
    * conversation history, with proper validation.
    *
    * @param body - The request body containing the message data
-   * @returns Object containing threadId, lastUserMessage, and fullMessages
+   * @returns Object containing threadId, lastUserMessage, fullMessages and
+   * the API IDs explicitly requested (if any), whether the response cache
+   * should be bypassed (`"cache": false`), whether this is a dry run
+   * (`"dryRun": true`) and the per-stage model overrides (`"models"`)
+   * @throws {ValidationError} When a model override is not allowed
    *
    * @private
    */
@@ -83,9 +165,16 @@ export class OrchestrApiAgent extends Agent<Env> {
     threadId: string
     lastUserMessage: string
     fullMessages: VercelMessage[]
+    apiIds?: string[]
+    bypassCache: boolean
+    dryRun: boolean
+    models: ModelOverrides
   } {
     const threadId =
       typeof body.threadId === 'string' ? body.threadId : 'default'
+    const apiIds = Array.isArray(body.apis)
+      ? body.apis.filter((id): id is string => typeof id === 'string')
+      : undefined
     const messages = Array.isArray(body.messages) ? body.messages : []
 
     const allowedRoles = ['user', 'assistant', 'system']
@@ -115,7 +204,44 @@ export class OrchestrApiAgent extends Agent<Env> {
       throw new Response('Missing or invalid message', { status: 400 })
     }
 
-    return { threadId, lastUserMessage, fullMessages }
+    return {
+      threadId,
+      lastUserMessage,
+      fullMessages,
+      apiIds,
+      bypassCache: body.cache === false,
+      dryRun: body.dryRun === true,
+      models: RequestValidator.validateModelOverrides(body.models),
+    }
+  }
+
+  /**
+   * Resolves the APIs a request targets
+   *
+   * An explicit `apis` selection in the request wins and is remembered for
+   * the thread; otherwise the thread's stored selection or the configured
+   * defaults are used.
+   *
+   * @param threadId - The conversation thread ID
+   * @param requestedIds - The API IDs requested in the body, if any
+   * @returns Promise containing the selected spec definitions
+   *
+   * @private
+   */
+  private async resolveApis(threadId: string, requestedIds?: string[]) {
+    if (requestedIds && requestedIds.length > 0) {
+      const apis = this.specRegistry.resolveSelection(requestedIds)
+      await this.databaseService.setThreadApis(
+        threadId,
+        apis.map((api) => api.id)
+      )
+      return apis
+    }
+
+    const storedIds = await this.databaseService.getThreadApis(threadId)
+    return this.specRegistry.resolveSelection(
+      storedIds?.filter((id) => this.specRegistry.has(id))
+    )
   }
 
   /**
@@ -128,6 +254,16 @@ export class OrchestrApiAgent extends Agent<Env> {
    * @returns Promise containing the streaming response
    */
   async onRequest(request: Request): Promise<Response> {
+    if (new URL(request.url).pathname.startsWith('/api/specs')) {
+      return this.specManagementService.handleRequest(request)
+    }
+    if (new URL(request.url).pathname.startsWith('/api/approvals')) {
+      return this.approvalService.handleRequest(request)
+    }
+    if (new URL(request.url).pathname.startsWith('/api/mock')) {
+      return this.mockApiServer.handleRequest(request)
+    }
+
     console.log('Agent: Starting orchestration request')
 
     if (request.method !== 'POST') {
@@ -136,8 +272,16 @@ export class OrchestrApiAgent extends Agent<Env> {
 
     try {
       const body: Record<string, unknown> = await request.json()
-      const { threadId, lastUserMessage, fullMessages } =
-        this.extractUserMessage(body)
+      const {
+        threadId,
+        lastUserMessage,
+        fullMessages,
+        apiIds,
+        bypassCache,
+        dryRun,
+        models,
+      } = this.extractUserMessage(body)
+      const apis = await this.resolveApis(threadId, apiIds)
 
       // Store user message
       await this.databaseService.insertTurn({
@@ -147,6 +291,10 @@ export class OrchestrApiAgent extends Agent<Env> {
         timestamp: Date.now(),
       })
 
+      // Cancel the orchestration when the client disconnects or stops
+      const abortController = new AbortController()
+      request.signal?.addEventListener('abort', () => abortController.abort())
+
       // Create streaming response
       const stream = new ReadableStream({
         start: async (controller) => {
@@ -155,14 +303,17 @@ export class OrchestrApiAgent extends Agent<Env> {
               threadId,
               lastUserMessage,
               fullMessages,
-              controller
+              controller,
+              apis,
+              { signal: abortController.signal, bypassCache, dryRun, models }
             )
-            controller.close()
           } catch (error) {
             console.error('Error in orchestrateRagWorkflow:', error)
-            controller.close()
           }
+          // A cancelled stream is already closed
+          if (!abortController.signal.aborted) controller.close()
         },
+        cancel: () => abortController.abort(),
       })
 
       return new Response(stream, {
@@ -175,6 +326,9 @@ export class OrchestrApiAgent extends Agent<Env> {
       })
     } catch (error) {
       console.error('Request processing error:', error)
+      if (error instanceof AgentError) {
+        return createErrorResponse(error)
+      }
       const errorMessage =
         error instanceof Error ? error.message : 'Internal Server Error'
       return new Response(errorMessage, { status: 500 })
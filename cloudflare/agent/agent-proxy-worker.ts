@@ -10,7 +10,15 @@ export default class extends WorkerEntrypoint {
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url)
 
-    if (url.pathname === '/api/chat' && request.method === 'POST') {
+    const isChat = url.pathname === '/api/chat' && request.method === 'POST'
+    const isSpecs =
+      url.pathname === '/api/specs' || url.pathname.startsWith('/api/specs/')
+    const isApprovals =
+      url.pathname === '/api/approvals' ||
+      url.pathname.startsWith('/api/approvals/')
+    const isMock = url.pathname.startsWith('/api/mock/')
+
+    if (isChat || isSpecs || isApprovals || isMock) {
       const sessionId = url.searchParams.get('session_id') || ''
 
       const agent = await getAgentByName(
@@ -0,0 +1,144 @@
+import { ExecutionError } from './error-handling'
+import { OperationEntry } from './openapi-utils'
+import { ApiAuthConfig, ApiRequest } from './types'
+
+export interface StepParameters {
+  path?: Record<string, unknown>
+  query?: Record<string, unknown>
+  header?: Record<string, unknown>
+  body?: unknown
+}
+
+/**
+ * Builds the HTTP request for an operation from a plan step's parameters
+ *
+ * Path parameters are substituted into the operation's path template,
+ * query parameters are appended to the URL (lists as comma-separated
+ * values) and a `body`, when given, is sent as JSON. Credentials are not
+ * added here, so the result is safe to log; see `authorizeRequest`.
+ *
+ * @param entry - The operation being called
+ * @param baseUrl - The base URL of the API
+ * @param parameters - The step's parameters, nested by location
+ * @returns The request without credentials
+ * @throws {ExecutionError} When a path parameter is missing
+ *
+ * @example
+ * ```typescript
+ * buildApiRequest(findOperation(spec, 'movie-details')!, 'https://api.themoviedb.org', {
+ *   path: { movie_id: 27205 },
+ *   query: { language: 'en-US' },
+ * })
+ * // { method: 'GET', url: 'https://api.themoviedb.org/3/movie/27205?language=en-US', ... }
+ * ```
+ */
+export function buildApiRequest(
+  entry: OperationEntry,
+  baseUrl: string,
+  parameters: StepParameters
+): ApiRequest {
+  const path = entry.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const value = parameters.path?.[name]
+    if (value === undefined || value === null || value === '') {
+      throw new ExecutionError(
+        `Missing path parameter ${name} for ${entry.operationId}`,
+        { operationId: entry.operationId, parameter: name }
+      )
+    }
+    return encodeURIComponent(String(value))
+  })
+
+  const url = new URL(baseUrl.replace(/\/$/, '') + path)
+  for (const [name, value] of Object.entries(parameters.query || {})) {
+    if (value === undefined || value === null) continue
+    url.searchParams.append(
+      name,
+      Array.isArray(value) ? value.join(',') : String(value)
+    )
+  }
+
+  const headers: Record<string, string> = { 'Accept': 'application/json' }
+  for (const [name, value] of Object.entries(parameters.header || {})) {
+    if (value !== undefined && value !== null) headers[name] = String(value)
+  }
+
+  const request: ApiRequest = {
+    method: entry.method.toUpperCase(),
+    url: url.toString(),
+    headers,
+  }
+  if (parameters.body !== undefined) {
+    request.headers['Content-Type'] = 'application/json'
+    request.body = JSON.stringify(parameters.body)
+  }
+  return request
+}
+
+/**
+ * Adds an API's credentials to a request
+ *
+ * @param request - The request built by `buildApiRequest`
+ * @param auth - The auth headers and query values from `buildAuthValues`
+ * @returns A copy of the request that carries the credentials
+ */
+export function authorizeRequest(
+  request: ApiRequest,
+  auth: { headers: Record<string, string>; query: Record<string, string> }
+): ApiRequest {
+  const url = new URL(request.url)
+  for (const [name, value] of Object.entries(auth.query)) {
+    url.searchParams.set(name, value)
+  }
+  return {
+    ...request,
+    url: url.toString(),
+    headers: { ...request.headers, ...auth.headers },
+  }
+}
+
+/**
+ * Formats a request as an equivalent curl command
+ *
+ * Credentials are not included: they are referenced as the environment
+ * variables the API's auth config reads them from, so the command is safe
+ * to show and runs as-is in a shell where those variables are set.
+ *
+ * @param request - The request built by `buildApiRequest`
+ * @param auth - The API's auth config
+ * @returns The curl command
+ *
+ * @example
+ * ```typescript
+ * toCurl(request, { type: 'bearer', tokenEnv: 'TMDB_API_TOKEN' })
+ * // curl -X GET 'https://api.themoviedb.org/3/movie/27205' -H 'Accept: application/json' -H "Authorization: Bearer $TMDB_API_TOKEN"
+ * ```
+ */
+export function toCurl(
+  request: ApiRequest,
+  auth: ApiAuthConfig = { type: 'none' }
+): string {
+  let url = shellQuote(request.url)
+  if (auth.type === 'query') {
+    const separator = request.url.includes('?') ? '&' : '?'
+    url += `"${separator}${auth.name}=$${auth.valueEnv}"`
+  }
+
+  const parts = ['curl']
+  // Keeps curl from treating {{placeholders}} as URL globs
+  if (request.url.includes('{{')) parts.push('-g')
+  parts.push('-X', request.method, url)
+  for (const [name, value] of Object.entries(request.headers)) {
+    parts.push('-H', shellQuote(`${name}: ${value}`))
+  }
+  if (auth.type === 'bearer') {
+    parts.push('-H', `"Authorization: Bearer $${auth.tokenEnv}"`)
+  } else if (auth.type === 'header') {
+    parts.push('-H', `"${auth.name}: $${auth.valueEnv}"`)
+  }
+  if (request.body !== undefined) parts.push('-d', shellQuote(request.body))
+  return parts.join(' ')
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
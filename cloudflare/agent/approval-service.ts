@@ -0,0 +1,244 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import { DatabaseService } from './database-service'
+import {
+  AgentError,
+  ApprovalRejectedError,
+  CancelledError,
+  createErrorResponse,
+  handleError,
+  ValidationError,
+} from './error-handling'
+import {
+  ApiRequest,
+  ApprovalRequest,
+  ApprovalRow,
+  ExecutionStep,
+} from './types'
+
+/**
+ * Service for the human approval gate on mutating API calls
+ *
+ * Before a non-GET call is sent, the run creates an approval request,
+ * which is stored in the Durable Object's SQLite and announced to the
+ * client as an `approval_required` event. The run then waits until the
+ * user answers through the `/api/approvals` routes, the request times out,
+ * or the run is cancelled. Waiting runs live in this Durable Object's
+ * memory, so approvals left pending by a restart are expired on start.
+ *
+ * @example
+ * ```typescript
+ * const approval = await approvalService.create(threadId, step, request)
+ * send({ type: 'approval_required', approval })
+ * await approvalService.waitForDecision(approval.approvalId, signal)
+ * // resolves once approved; throws ApprovalRejectedError otherwise
+ * ```
+ */
+export class ApprovalService {
+  // Runs waiting for an answer, keyed by approval ID
+  private waiting = new Map<string, (approved: boolean) => void>()
+
+  /**
+   * Creates a new approval service instance
+   *
+   * @param databaseService - Service for data persistence
+   * @param config - Approval gate settings
+   */
+  constructor(
+    private databaseService: DatabaseService,
+    private config: AgentConfig['approval'] = DEFAULT_CONFIG.approval
+  ) {}
+
+  /**
+   * Whether non-GET calls need approval
+   */
+  get enabled(): boolean {
+    return this.config.enabled
+  }
+
+  /**
+   * Expires approvals whose runs did not survive a restart
+   */
+  async expireStale() {
+    await this.databaseService.expirePendingApprovals(Date.now())
+  }
+
+  /**
+   * Stores a pending approval request for a call
+   *
+   * @param threadId - The conversation thread ID
+   * @param step - The plan step making the call
+   * @param request - The request as it will be sent, minus credentials
+   * @returns Promise containing the approval to send to the client
+   */
+  async create(
+    threadId: string,
+    step: ExecutionStep,
+    request: ApiRequest
+  ): Promise<ApprovalRequest> {
+    const approval: ApprovalRequest = {
+      approvalId: crypto.randomUUID(),
+      stepId: step.id,
+      tool: step.tool,
+      description: step.description,
+      request,
+    }
+    await this.databaseService.insertApproval({
+      id: approval.approvalId,
+      threadId,
+      stepId: step.id,
+      tool: step.tool,
+      request: JSON.stringify(request),
+      status: 'pending',
+      createdAt: Date.now(),
+    })
+    console.log(
+      `✋ [APPROVAL] Waiting for approval of ${request.method} ${step.tool} (${approval.approvalId})`
+    )
+    return approval
+  }
+
+  /**
+   * Waits for the user's answer to an approval request
+   *
+   * @param approvalId - The approval to wait for
+   * @param signal - Stops waiting when the run is cancelled
+   * @returns Promise that resolves when the call is approved
+   * @throws {ApprovalRejectedError} When the call is rejected or the
+   * request times out
+   * @throws {CancelledError} When the signal is aborted
+   */
+  async waitForDecision(approvalId: string, signal?: AbortSignal) {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let onAbort: (() => void) | undefined
+
+    try {
+      const approved = await new Promise<boolean>((resolve, reject) => {
+        this.waiting.set(approvalId, resolve)
+        timer = setTimeout(() => {
+          reject(
+            new ApprovalRejectedError(
+              `No answer to the approval request within ${this.config.timeout / 1000}s`,
+              { approvalId, status: 'expired' }
+            )
+          )
+        }, this.config.timeout)
+        onAbort = () => reject(new CancelledError())
+        if (signal?.aborted) onAbort()
+        signal?.addEventListener('abort', onAbort)
+      })
+
+      if (!approved) {
+        throw new ApprovalRejectedError('The user rejected the API call', {
+          approvalId,
+          status: 'rejected',
+        })
+      }
+      console.log(`✅ [APPROVAL] Approved ${approvalId}`)
+    } catch (error) {
+      // Answers arriving after a timeout or cancellation are refused
+      await this.databaseService.resolveApproval(
+        approvalId,
+        'expired',
+        Date.now()
+      )
+      throw error
+    } finally {
+      clearTimeout(timer)
+      if (onAbort) signal?.removeEventListener('abort', onAbort)
+      this.waiting.delete(approvalId)
+    }
+  }
+
+  /**
+   * Handles a request to the approval routes
+   *
+   * Supported routes:
+   * - `GET /api/approvals` lists the pending approval requests
+   * - `GET /api/approvals/:id` returns an approval request
+   * - `POST /api/approvals/:id` answers it with `{ "approved": boolean }`
+   *
+   * @param request - The incoming HTTP request
+   * @returns Promise containing the JSON response
+   *
+   * @example
+   * ```typescript
+   * // curl -X POST /api/approvals/3f2c... -d '{"approved":true}'
+   * const response = await approvalService.handleRequest(request)
+   * ```
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    try {
+      const [id] = new URL(request.url).pathname
+        .replace(/^\/api\/approvals\/?/, '')
+        .split('/')
+        .filter(Boolean)
+        .map(decodeURIComponent)
+
+      if (!id && request.method === 'GET') {
+        const approvals = await this.databaseService.listPendingApprovals()
+        return this.json({
+          approvals: approvals.map((row) => this.toJson(row)),
+        })
+      }
+      if (id && request.method === 'GET') {
+        return this.json(this.toJson(await this.getApproval(id)))
+      }
+      if (id && request.method === 'POST') {
+        return await this.answer(id, request)
+      }
+
+      return new Response('Method Not Allowed', { status: 405 })
+    } catch (error) {
+      console.error('❌ [APPROVAL] Request failed:', error)
+      return createErrorResponse(handleError(error))
+    }
+  }
+
+  private async answer(id: string, request: Request): Promise<Response> {
+    let body: { approved?: unknown }
+    try {
+      body = await request.json()
+    } catch {
+      throw new ValidationError('Request body must be JSON')
+    }
+    if (typeof body?.approved !== 'boolean') {
+      throw new ValidationError('approved must be true or false')
+    }
+
+    await this.getApproval(id)
+    const resume = this.waiting.get(id)
+    const status = body.approved ? 'approved' : 'rejected'
+    if (
+      !resume ||
+      !(await this.databaseService.resolveApproval(id, status, Date.now()))
+    ) {
+      throw new AgentError(
+        `Approval ${id} is no longer waiting for an answer`,
+        'CONFLICT',
+        409
+      )
+    }
+
+    resume(body.approved)
+    return this.json(this.toJson(await this.getApproval(id)))
+  }
+
+  private async getApproval(id: string) {
+    const row = await this.databaseService.getApproval(id)
+    if (!row) {
+      throw new AgentError(`Approval not found: ${id}`, 'NOT_FOUND', 404)
+    }
+    return row
+  }
+
+  private toJson(row: ApprovalRow) {
+    return { ...row, request: JSON.parse(row.request) as ApiRequest }
+  }
+
+  private json(data: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
@@ -1,9 +1,48 @@
+// The model calls of a request
+export type ModelStage = 'rag-rewrite' | 'planning' | 'response' | 'title'
+
+export const MODEL_STAGES: ModelStage[] = [
+  'rag-rewrite',
+  'planning',
+  'response',
+  'title',
+]
+
+export interface StageModelConfig {
+  // A key of AgentConfig.ai.providers
+  provider: string
+  model: string
+  temperature: number
+  maxTokens: number
+  // Retries of a model call that fails (not of an invalid plan)
+  maxRetries: number
+  // The optional stages (rag-rewrite, title) only call a model when set
+  enabled?: boolean
+}
+
+// Per-request changes to the stage settings, checked against the allowlist
+export type ModelOverrides = Partial<
+  Record<ModelStage, Partial<StageModelConfig>>
+>
+
+export interface LlmProviderConfig {
+  type: 'workers-ai' | 'openai' | 'openai-compatible'
+  // Required for openai-compatible; the env variable wins when set
+  baseUrl?: string
+  baseUrlEnv?: string
+  // Env variable holding the API key
+  apiKeyEnv?: string
+}
+
 export interface AgentConfig {
   // AI Model Configuration
   ai: {
-    model: string
-    maxTokens: number
-    temperature: number
+    providers: Record<string, LlmProviderConfig>
+    stages: Record<ModelStage, StageModelConfig>
+    // Models a request may switch a stage to, by provider ('*' allows any
+    // model of it); overrides may also lower maxTokens and maxRetries and
+    // set any temperature from 0 to 2
+    allowedModels: Record<string, string[]>
   }
 
   // RAG Configuration
@@ -11,6 +50,35 @@ export interface AgentConfig {
     maxResults: number
     scoreThreshold: number
     indexName: string
+    maxChunkChars: number
+    embeddingModel: string
+    vectorWeight: number
+    lexicalWeight: number
+    lexicalSaturation: number
+  }
+
+  // Planning Prompt Configuration
+  planning: {
+    docTokenBudget: number
+    operationTokenBudget: number
+    maxRevisions: number
+    revisionResultTokenBudget: number
+  }
+
+  // Plan Execution Configuration
+  execution: {
+    maxConcurrency: number
+    maxFanOut: number
+    fanOutConcurrency: number
+    maxPages: number
+  }
+
+  // Result Shaping Configuration (before response generation)
+  shaping: {
+    tokenBudget: number
+    maxArrayItems: number
+    // Fields dropped from every result unless a step selects them
+    denylist: string[]
   }
 
   // API Configuration
@@ -18,6 +86,52 @@ export interface AgentConfig {
     baseUrl: string
     timeout: number
     retryAttempts: number
+    retryBaseDelay: number
+    retryMaxDelay: number
+    maxRetryAfter: number
+    // Token bucket per upstream host
+    rateLimit: {
+      enabled: boolean
+      requestsPerSecond: number
+      burst: number
+      // 'wait' delays calls over the limit, 'fail' rejects them
+      policy: 'wait' | 'fail'
+      // Calls that would wait longer than this fail instead
+      maxWait: number
+      // Limits keyed by spec ID or host, replacing the defaults above
+      overrides: Record<string, { requestsPerSecond: number; burst: number }>
+    }
+  }
+
+  // Upstream Response Cache Configuration
+  cache: {
+    enabled: boolean
+    defaultTtl: number
+    // TTL per operationId; 0 disables caching for that operation
+    ttlByOperation: Record<string, number>
+  }
+
+  // Approval Gate Configuration (non-GET operations)
+  approval: {
+    enabled: boolean
+    // Keep below maxDuration in app/api/chat/route.ts
+    timeout: number
+  }
+
+  // API Spec Configuration
+  specs: {
+    defaultApiIds: string[]
+    maxDocumentBytes: number
+    uploadSecretPrefix: string
+  }
+
+  // Mock API Server Configuration (MOCK_APIS)
+  mock: {
+    // Mock routes, followed by /:specId/<operation path>
+    baseUrl: string
+    // Generated items per page of a `results` list
+    pageSize: number
+    totalPages: number
   }
 
   // Database Configuration
@@ -35,19 +149,146 @@ export interface AgentConfig {
 
 export const DEFAULT_CONFIG: AgentConfig = {
   ai: {
-    model: '@cf/meta/llama-3.1-8b-instruct',
-    maxTokens: 4096,
-    temperature: 0.7,
+    providers: {
+      'workers-ai': { type: 'workers-ai' },
+      openai: { type: 'openai', apiKeyEnv: 'OPENAI_API_KEY' },
+      // A local llama.cpp or Ollama server, e.g. LLM_BASE_URL=http://localhost:11434/v1
+      local: {
+        type: 'openai-compatible',
+        baseUrl: 'http://localhost:8080/v1',
+        baseUrlEnv: 'LLM_BASE_URL',
+        apiKeyEnv: 'LLM_API_KEY',
+      },
+    },
+    stages: {
+      // Turns the question into a documentation search query; when off,
+      // AutoRAG rewrites it instead
+      'rag-rewrite': {
+        provider: 'workers-ai',
+        model: '@cf/meta/llama-3.1-8b-instruct-fast',
+        temperature: 0,
+        maxTokens: 64,
+        maxRetries: 1,
+        enabled: false,
+      },
+      planning: {
+        provider: 'workers-ai',
+        model: '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b',
+        temperature: 0.6,
+        maxTokens: 4096,
+        maxRetries: 2,
+      },
+      response: {
+        provider: 'workers-ai',
+        model: '@cf/meta/llama-3.1-8b-instruct-fast',
+        temperature: 0.7,
+        maxTokens: 4096,
+        maxRetries: 2,
+      },
+      // Names a new thread after its first question; when off, threads are
+      // titled with the start of their latest answer
+      title: {
+        provider: 'workers-ai',
+        model: '@cf/meta/llama-3.1-8b-instruct-fast',
+        temperature: 0.3,
+        maxTokens: 24,
+        maxRetries: 1,
+        enabled: false,
+      },
+    },
+    allowedModels: {
+      'workers-ai': [
+        '@cf/meta/llama-3.1-8b-instruct-fast',
+        '@cf/meta/llama-3.1-8b-instruct',
+        '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+        '@cf/deepseek-ai/deepseek-r1-distill-qwen-32b',
+        '@cf/qwen/qwq-32b',
+      ],
+      openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+      local: ['*'],
+    },
   },
   rag: {
     maxResults: 10,
     scoreThreshold: 0.25,
     indexName: 'orchestrapi-endpoints-rag',
+    maxChunkChars: 2000,
+    embeddingModel: '@cf/baai/bge-base-en-v1.5',
+    vectorWeight: 0.6,
+    lexicalWeight: 0.4,
+    lexicalSaturation: 8, // BM25 score that maps to a lexical score of 0.5
+  },
+  planning: {
+    docTokenBudget: 6000,
+    operationTokenBudget: 400,
+    maxRevisions: 2, // Replanning rounds after failures or empty results
+    revisionResultTokenBudget: 1500, // Partial results shown to the planner
+  },
+  execution: {
+    maxConcurrency: 4,
+    maxFanOut: 10, // Most items a for_each step runs for
+    fanOutConcurrency: 4,
+    maxPages: 5, // Most pages a paginated step fetches
+  },
+  shaping: {
+    tokenBudget: 3000,
+    maxArrayItems: 20,
+    denylist: [
+      'adult',
+      'backdrop_path',
+      'credit_id',
+      'file_path',
+      'logo_path',
+      'poster_path',
+      'profile_path',
+      'still_path',
+      'video',
+    ],
   },
   api: {
     baseUrl: 'https://api.themoviedb.org/3',
     timeout: 10000,
     retryAttempts: 3,
+    retryBaseDelay: 250,
+    retryMaxDelay: 4000,
+    maxRetryAfter: 10000, // Longer 429 Retry-After waits fail instead
+    rateLimit: {
+      enabled: true,
+      requestsPerSecond: 10,
+      burst: 20,
+      policy: 'wait',
+      maxWait: 10000,
+      overrides: {
+        // TMDB allows around 50 requests per second
+        'api.themoviedb.org': { requestsPerSecond: 40, burst: 40 },
+      },
+    },
+  },
+  cache: {
+    enabled: true,
+    defaultTtl: 5 * 60 * 1000, // 5 minutes
+    ttlByOperation: {
+      'configuration-details': 24 * 60 * 60 * 1000,
+      'genre-movie-list': 24 * 60 * 60 * 1000,
+      'genre-tv-list': 24 * 60 * 60 * 1000,
+      'movie-details': 60 * 60 * 1000,
+      'tv-series-details': 60 * 60 * 1000,
+      'person-details': 60 * 60 * 1000,
+    },
+  },
+  approval: {
+    enabled: true,
+    timeout: 5 * 60 * 1000, // Unanswered requests are rejected after 5 minutes
+  },
+  specs: {
+    defaultApiIds: ['tmdb'],
+    maxDocumentBytes: 2 * 1024 * 1024, // SQLite value limit in Durable Objects
+    uploadSecretPrefix: 'SPEC_SECRET_',
+  },
+  mock: {
+    baseUrl: 'http://localhost:3000/api/mock',
+    pageSize: 20,
+    totalPages: 3,
   },
   database: {
     maxHistoryLength: 1000,
@@ -67,3 +308,19 @@ export function createConfig(
     ...overrides,
   }
 }
+
+/**
+ * The model settings of a stage with a request's overrides applied
+ *
+ * @param stage - The model call
+ * @param overrides - Validated per-request overrides
+ * @param config - The configured stage settings
+ * @returns The settings to call the model with
+ */
+export function stageModel(
+  stage: ModelStage,
+  overrides: ModelOverrides = {},
+  config: AgentConfig['ai'] = DEFAULT_CONFIG.ai
+): StageModelConfig {
+  return { ...config.stages[stage], ...overrides[stage] }
+}
@@ -1,4 +1,11 @@
-import { HistoryRow, ThreadRow } from './types'
+import {
+  ApprovalRow,
+  ApprovalStatus,
+  CachedResponseRow,
+  HistoryRow,
+  SpecRow,
+  ThreadRow,
+} from './types'
 
 // Define a minimal interface for the agent to avoid circular dependencies
 interface AgentInterface {
@@ -52,18 +59,59 @@ export class DatabaseService {
       timestamp INTEGER,
       trace TEXT
     )`
+    // Tables created before turns had a status lack the column
+    const historyColumns = await this.agent.sql<{
+      name: string
+    }>`SELECT name FROM pragma_table_info('history')`
+    if (!historyColumns.some((column) => column.name === 'status')) {
+      await this.agent.sql`ALTER TABLE history ADD COLUMN status TEXT`
+    }
     await this.agent.sql`CREATE TABLE IF NOT EXISTS threads (
       threadId TEXT PRIMARY KEY,
       title TEXT,
       lastUpdated INTEGER
     )`
+    await this.agent.sql`CREATE TABLE IF NOT EXISTS thread_apis (
+      threadId TEXT PRIMARY KEY,
+      apiIds TEXT
+    )`
+    await this.agent.sql`CREATE TABLE IF NOT EXISTS specs (
+      id TEXT PRIMARY KEY,
+      name TEXT,
+      baseUrl TEXT,
+      auth TEXT,
+      foundationalTools TEXT,
+      ragIndexName TEXT,
+      document TEXT,
+      updatedAt INTEGER
+    )`
+    await this.agent.sql`CREATE TABLE IF NOT EXISTS response_cache (
+      key TEXT PRIMARY KEY,
+      specId TEXT,
+      operationId TEXT,
+      status INTEGER,
+      body TEXT,
+      createdAt INTEGER,
+      expiresAt INTEGER
+    )`
+    await this.agent.sql`CREATE TABLE IF NOT EXISTS approvals (
+      id TEXT PRIMARY KEY,
+      threadId TEXT,
+      stepId TEXT,
+      tool TEXT,
+      request TEXT,
+      status TEXT,
+      createdAt INTEGER,
+      resolvedAt INTEGER
+    )`
   }
 
   /**
    * Inserts a conversation turn into the database
    *
    * Stores a single message or response in the conversation history
-   * with optional trace information for debugging.
+   * with optional trace information for debugging. Assistant turns carry
+   * a status, so a response cut short by the user is marked `cancelled`.
    *
    * @param turn - The conversation turn to insert
    * @returns Promise that resolves when the turn is inserted
@@ -81,10 +129,12 @@ export class DatabaseService {
   async insertTurn(turn: Omit<HistoryRow, 'id'> & { id?: string }) {
     const id = turn.id || crypto.randomUUID()
     await this.agent
-      .sql`INSERT INTO history (id, threadId, role, content, timestamp, trace)
+      .sql`INSERT INTO history (id, threadId, role, content, timestamp, trace, status)
       VALUES (${id}, ${turn.threadId}, ${turn.role}, ${JSON.stringify(
       turn.content
-    )}, ${turn.timestamp}, ${turn.trace ? JSON.stringify(turn.trace) : null})`
+    )}, ${turn.timestamp}, ${turn.trace ? JSON.stringify(turn.trace) : null}, ${
+      turn.status ?? null
+    })`
   }
 
   /**
@@ -164,4 +214,247 @@ export class DatabaseService {
     return await this.agent
       .sql<ThreadRow>`SELECT * FROM threads ORDER BY lastUpdated DESC`
   }
+
+  /**
+   * Retrieves the APIs a thread is pinned to
+   *
+   * @param threadId - The ID of the thread
+   * @returns Promise containing the API IDs, or undefined if none are stored
+   *
+   * @example
+   * ```typescript
+   * const apiIds = await dbService.getThreadApis('thread-123')
+   * ```
+   */
+  async getThreadApis(threadId: string): Promise<string[] | undefined> {
+    const rows = await this.agent.sql<{
+      apiIds: string
+    }>`SELECT apiIds FROM thread_apis WHERE threadId = ${threadId} LIMIT 1`
+    return rows[0] ? (JSON.parse(rows[0].apiIds) as string[]) : undefined
+  }
+
+  /**
+   * Pins a thread to a set of APIs
+   *
+   * Later requests on the thread target these APIs unless they
+   * explicitly select others.
+   *
+   * @param threadId - The ID of the thread
+   * @param apiIds - The API IDs to pin
+   * @returns Promise that resolves when the selection is saved
+   *
+   * @example
+   * ```typescript
+   * await dbService.setThreadApis('thread-123', ['tmdb'])
+   * ```
+   */
+  async setThreadApis(threadId: string, apiIds: string[]) {
+    await this.agent.sql`INSERT OR REPLACE INTO thread_apis (threadId, apiIds)
+      VALUES (${threadId}, ${JSON.stringify(apiIds)})`
+  }
+
+  /**
+   * Creates or replaces a stored OpenAPI spec
+   *
+   * @param spec - The spec row to store
+   * @returns Promise that resolves when the spec is saved
+   *
+   * @example
+   * ```typescript
+   * await dbService.upsertSpec({
+   *   id: 'billing',
+   *   name: 'Billing API',
+   *   baseUrl: 'https://billing.internal',
+   *   auth: JSON.stringify({ type: 'none' }),
+   *   foundationalTools: '[]',
+   *   ragIndexName: null,
+   *   document: JSON.stringify(openApiDocument),
+   *   updatedAt: Date.now()
+   * })
+   * ```
+   */
+  async upsertSpec(spec: SpecRow) {
+    await this.agent
+      .sql`INSERT OR REPLACE INTO specs (id, name, baseUrl, auth, foundationalTools, ragIndexName, document, updatedAt)
+      VALUES (${spec.id}, ${spec.name}, ${spec.baseUrl}, ${spec.auth}, ${spec.foundationalTools}, ${spec.ragIndexName}, ${spec.document}, ${spec.updatedAt})`
+  }
+
+  /**
+   * Retrieves a stored spec by ID
+   *
+   * @param id - The ID of the spec to retrieve
+   * @returns Promise containing the spec row or undefined if not found
+   *
+   * @example
+   * ```typescript
+   * const spec = await dbService.getSpec('billing')
+   * ```
+   */
+  async getSpec(id: string): Promise<SpecRow | undefined> {
+    const rows = await this.agent
+      .sql<SpecRow>`SELECT * FROM specs WHERE id = ${id} LIMIT 1`
+    return rows[0]
+  }
+
+  /**
+   * Lists all stored specs
+   *
+   * @returns Promise containing every stored spec row
+   *
+   * @example
+   * ```typescript
+   * const specs = await dbService.listSpecs()
+   * ```
+   */
+  async listSpecs(): Promise<SpecRow[]> {
+    return await this.agent.sql<SpecRow>`SELECT * FROM specs ORDER BY id ASC`
+  }
+
+  /**
+   * Deletes a stored spec
+   *
+   * @param id - The ID of the spec to delete
+   * @returns Promise that resolves when the spec is deleted
+   *
+   * @example
+   * ```typescript
+   * await dbService.deleteSpec('billing')
+   * ```
+   */
+  async deleteSpec(id: string) {
+    await this.agent.sql`DELETE FROM specs WHERE id = ${id}`
+  }
+
+  /**
+   * Retrieves a cached upstream response that has not expired
+   *
+   * @param key - The cache key of the request
+   * @param now - The current time in milliseconds
+   * @returns Promise containing the cached row, or undefined on a miss
+   *
+   * @example
+   * ```typescript
+   * const cached = await dbService.getCachedResponse(key, Date.now())
+   * ```
+   */
+  async getCachedResponse(
+    key: string,
+    now: number
+  ): Promise<CachedResponseRow | undefined> {
+    const rows = await this.agent
+      .sql<CachedResponseRow>`SELECT * FROM response_cache WHERE key = ${key} AND expiresAt > ${now}`
+    return rows[0]
+  }
+
+  /**
+   * Stores an upstream response and drops expired entries
+   *
+   * @param row - The response to cache
+   * @returns Promise that resolves when the row is saved
+   *
+   * @example
+   * ```typescript
+   * await dbService.putCachedResponse({
+   *   key,
+   *   specId: 'tmdb',
+   *   operationId: 'genre-movie-list',
+   *   status: 200,
+   *   body: JSON.stringify(genres),
+   *   createdAt: Date.now(),
+   *   expiresAt: Date.now() + 24 * 60 * 60 * 1000,
+   * })
+   * ```
+   */
+  async putCachedResponse(row: CachedResponseRow) {
+    await this.agent
+      .sql`DELETE FROM response_cache WHERE expiresAt <= ${row.createdAt}`
+    await this.agent
+      .sql`INSERT OR REPLACE INTO response_cache (key, specId, operationId, status, body, createdAt, expiresAt)
+      VALUES (${row.key}, ${row.specId}, ${row.operationId}, ${row.status}, ${row.body}, ${row.createdAt}, ${row.expiresAt})`
+  }
+
+  /**
+   * Stores a pending approval request for a mutating API call
+   *
+   * @param row - The approval request
+   * @returns Promise that resolves when the row is saved
+   *
+   * @example
+   * ```typescript
+   * await dbService.insertApproval({
+   *   id: crypto.randomUUID(),
+   *   threadId: 'thread-123',
+   *   stepId: 'step2',
+   *   tool: 'movie-add-rating',
+   *   request: JSON.stringify(request),
+   *   status: 'pending',
+   *   createdAt: Date.now(),
+   * })
+   * ```
+   */
+  async insertApproval(row: ApprovalRow) {
+    await this.agent
+      .sql`INSERT INTO approvals (id, threadId, stepId, tool, request, status, createdAt, resolvedAt)
+      VALUES (${row.id}, ${row.threadId}, ${row.stepId}, ${row.tool}, ${row.request}, ${row.status}, ${row.createdAt}, ${row.resolvedAt ?? null})`
+  }
+
+  /**
+   * Retrieves an approval request by ID
+   *
+   * @param id - The approval ID
+   * @returns Promise containing the approval, or undefined if not found
+   */
+  async getApproval(id: string): Promise<ApprovalRow | undefined> {
+    const rows = await this.agent
+      .sql<ApprovalRow>`SELECT * FROM approvals WHERE id = ${id}`
+    return rows[0]
+  }
+
+  /**
+   * Lists the approval requests still waiting for an answer
+   *
+   * @returns Promise containing the pending approvals, oldest first
+   */
+  async listPendingApprovals(): Promise<ApprovalRow[]> {
+    return this.agent
+      .sql<ApprovalRow>`SELECT * FROM approvals WHERE status = 'pending' ORDER BY createdAt ASC`
+  }
+
+  /**
+   * Records the answer to an approval request
+   *
+   * Only pending approvals change, so a request can't be answered twice.
+   *
+   * @param id - The approval ID
+   * @param status - The new status
+   * @param resolvedAt - When the request was answered
+   * @returns Promise containing true if the approval was still pending
+   *
+   * @example
+   * ```typescript
+   * await dbService.resolveApproval(approvalId, 'approved', Date.now())
+   * ```
+   */
+  async resolveApproval(
+    id: string,
+    status: Exclude<ApprovalStatus, 'pending'>,
+    resolvedAt: number
+  ): Promise<boolean> {
+    const rows = await this.agent
+      .sql<ApprovalRow>`UPDATE approvals SET status = ${status}, resolvedAt = ${resolvedAt} WHERE id = ${id} AND status = 'pending' RETURNING id`
+    return rows.length > 0
+  }
+
+  /**
+   * Expires every pending approval request
+   *
+   * Called on start: the runs waiting on them did not survive the restart.
+   *
+   * @param resolvedAt - When the requests were expired
+   * @returns Promise that resolves when the rows are updated
+   */
+  async expirePendingApprovals(resolvedAt: number) {
+    await this.agent
+      .sql`UPDATE approvals SET status = 'expired', resolvedAt = ${resolvedAt} WHERE status = 'pending'`
+  }
 }
@@ -42,6 +42,47 @@ export class ExecutionError extends AgentError {
   }
 }
 
+export class CancelledError extends AgentError {
+  constructor(message: string = 'Request was cancelled') {
+    super(message, 'CANCELLED', 499)
+    this.name = 'CancelledError'
+  }
+}
+
+export class ApprovalRejectedError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'APPROVAL_REJECTED', 403, details)
+    this.name = 'ApprovalRejectedError'
+  }
+}
+
+export class RateLimitError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'RATE_LIMITED', 429, details)
+    this.name = 'RateLimitError'
+  }
+}
+
+export class FixtureMismatchError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'FIXTURE_MISMATCH', 500, details)
+    this.name = 'FixtureMismatchError'
+  }
+}
+
+/**
+ * Throws a CancelledError if the signal has been aborted
+ *
+ * Long-running services call this between stages so a cancelled request
+ * stops doing work as soon as possible.
+ *
+ * @param signal - The request's abort signal, if any
+ * @throws {CancelledError} When the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new CancelledError()
+}
+
 export function handleError(error: unknown): AgentError {
   if (error instanceof AgentError) {
     return error
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CONFIG } from './config'
+import { ApiError, CancelledError, RateLimitError } from './error-handling'
+import { FetchFunction, HttpClient } from './http-client'
+import { ApiRequest } from './types'
+
+const config = {
+  ...DEFAULT_CONFIG.api,
+  timeout: 50,
+  retryAttempts: 2,
+  retryBaseDelay: 1,
+  retryMaxDelay: 1,
+  maxRetryAfter: 1000,
+}
+
+type Reply = Response | Error | 'hang'
+
+// Answers each call with the next reply and records the requests
+function upstream(...replies: Reply[]) {
+  const calls: Array<{ url: string; method?: string }> = []
+  const fetchFn: FetchFunction = (input, init) => {
+    calls.push({ url: String(input), method: init?.method })
+    const reply = replies[Math.min(calls.length, replies.length) - 1]
+    if (reply === 'hang') {
+      return new Promise((_, reject) =>
+        init?.signal?.addEventListener('abort', () =>
+          reject(new Error('aborted'))
+        )
+      )
+    }
+    return reply instanceof Error
+      ? Promise.reject(reply)
+      : Promise.resolve(reply.clone())
+  }
+  return { calls, client: new HttpClient(fetchFn, config) }
+}
+
+function json(status: number, body: unknown, headers?: HeadersInit) {
+  return new Response(JSON.stringify(body), { status, headers })
+}
+
+function request(method: string): ApiRequest {
+  return {
+    method,
+    url: 'https://api.example.com/movies?api_key=secret',
+    headers: {},
+  }
+}
+
+async function failure(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise
+  } catch (error) {
+    return error as ApiError
+  }
+  throw new Error('Expected the call to fail')
+}
+
+describe('HttpClient', () => {
+  it('parses JSON bodies and falls back to text', async () => {
+    const { client } = upstream(json(200, { id: 1 }))
+    expect((await client.send(request('GET'))).body).toEqual({ id: 1 })
+
+    const text = upstream(new Response('plain', { status: 200 }))
+    expect((await text.client.send(request('GET'))).body).toBe('plain')
+  })
+
+  it('retries a GET on 5xx and records every attempt', async () => {
+    const { calls, client } = upstream(
+      json(503, {}),
+      json(502, {}),
+      json(200, { ok: true })
+    )
+
+    const { status, body, attempts } = await client.send(request('GET'))
+
+    expect(calls).toHaveLength(3)
+    expect(status).toBe(200)
+    expect(body).toEqual({ ok: true })
+    expect(attempts.map(({ status }) => status)).toEqual([503, 502, 200])
+    expect(attempts[0].retryDelayMs).toBe(1)
+  })
+
+  it('gives up after retryAttempts retries', async () => {
+    const { calls, client } = upstream(json(500, { error: 'boom' }))
+
+    const error = await failure(client.send(request('GET')))
+
+    expect(calls).toHaveLength(3)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error.statusCode).toBe(500)
+    expect(error.message).toBe(
+      'GET https://api.example.com/movies failed with status 500'
+    )
+    expect(error.details?.body).toEqual({ error: 'boom' })
+  })
+
+  it('does not retry other 4xx responses', async () => {
+    const { calls, client } = upstream(json(404, {}))
+
+    expect((await failure(client.send(request('PUT')))).statusCode).toBe(404)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('does not retry POST or PATCH on 5xx or network errors', async () => {
+    for (const method of ['POST', 'PATCH']) {
+      const server = upstream(json(503, {}))
+      expect(
+        (await failure(server.client.send(request(method)))).statusCode
+      ).toBe(503)
+      expect(server.calls).toHaveLength(1)
+
+      const network = upstream(new Error('connection reset'))
+      const error = await failure(network.client.send(request(method)))
+      expect(error.statusCode).toBe(502)
+      expect(network.calls).toHaveLength(1)
+    }
+  })
+
+  it('retries network errors of idempotent methods', async () => {
+    const { calls, client } = upstream(
+      new Error('connection reset'),
+      json(200, {})
+    )
+
+    const { attempts } = await client.send(request('DELETE'))
+
+    expect(calls).toHaveLength(2)
+    expect(attempts[0].error).toBe('connection reset')
+  })
+
+  it('waits for Retry-After on 429, whatever the method', async () => {
+    const { calls, client } = upstream(
+      json(429, {}, { 'Retry-After': '0' }),
+      json(201, {})
+    )
+
+    const { status, attempts } = await client.send(request('POST'))
+
+    expect(status).toBe(201)
+    expect(calls).toHaveLength(2)
+    expect(attempts[0].retryDelayMs).toBe(0)
+  })
+
+  it('backs off on 429 without Retry-After for idempotent methods only', async () => {
+    const get = upstream(json(429, {}), json(200, {}))
+    expect((await get.client.send(request('GET'))).status).toBe(200)
+
+    const patch = upstream(json(429, {}), json(200, {}))
+    expect(
+      (await failure(patch.client.send(request('PATCH')))).statusCode
+    ).toBe(429)
+    expect(patch.calls).toHaveLength(1)
+  })
+
+  it('fails when Retry-After is longer than maxRetryAfter', async () => {
+    const { calls, client } = upstream(
+      json(429, {}, { 'Retry-After': '120' }),
+      json(200, {})
+    )
+
+    expect((await failure(client.send(request('GET')))).statusCode).toBe(429)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('times out attempts that take too long', async () => {
+    const { calls, client } = upstream('hang')
+
+    const error = await failure(client.send(request('GET')))
+
+    expect(calls).toHaveLength(3)
+    expect(error.statusCode).toBe(504)
+    expect(error.message).toBe(
+      'GET https://api.example.com/movies failed: Timed out after 50ms'
+    )
+  })
+
+  it('stops when the signal is aborted', async () => {
+    const { calls, client } = upstream('hang')
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(
+      client.send(request('GET'), controller.signal)
+    ).rejects.toBeInstanceOf(CancelledError)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('runs beforeAttempt before every attempt and stops on its errors', async () => {
+    const { calls, client } = upstream(json(503, {}), json(200, {}))
+    let before = 0
+
+    await client.send(request('GET'), undefined, async () => {
+      before++
+    })
+    expect(before).toBe(2)
+
+    await expect(
+      client.send(request('GET'), undefined, async () => {
+        throw new RateLimitError('over the limit')
+      })
+    ).rejects.toBeInstanceOf(RateLimitError)
+    expect(calls).toHaveLength(2)
+  })
+})
@@ -0,0 +1,224 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import {
+  AgentError,
+  ApiError,
+  CancelledError,
+  throwIfCancelled,
+} from './error-handling'
+import { ApiRequest, HttpAttempt } from './types'
+
+export type FetchFunction = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>
+
+// Methods that are safe to send again after a failure or timeout
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+export interface HttpResponse {
+  status: number
+  body: unknown
+  attempts: HttpAttempt[]
+}
+
+/**
+ * HTTP client for upstream API calls with timeouts and retries
+ *
+ * Every attempt is bounded by `AgentConfig.api.timeout`. For idempotent
+ * methods (GET, HEAD, OPTIONS, PUT, DELETE), network errors, timeouts and
+ * 5xx responses are retried up to `retryAttempts` times with exponential
+ * backoff and jitter. A 429 waits for its `Retry-After` header when present
+ * (up to `maxRetryAfter`), otherwise it backs off like a 5xx. POST and
+ * PATCH may already have been applied when they fail, so they are only
+ * retried on a 429 with `Retry-After`. Other 4xx responses are not retried.
+ *
+ * @example
+ * ```typescript
+ * const client = new HttpClient()
+ * const { status, body, attempts } = await client.send({
+ *   method: 'GET',
+ *   url: 'https://api.themoviedb.org/3/movie/27205',
+ *   headers: { Authorization: `Bearer ${token}` },
+ * })
+ * ```
+ */
+export class HttpClient {
+  /**
+   * Creates a new HTTP client
+   *
+   * @param fetchFn - The fetch implementation to send requests with
+   * @param config - Timeout and retry settings
+   */
+  constructor(
+    private fetchFn: FetchFunction = (input, init) => fetch(input, init),
+    private config: AgentConfig['api'] = DEFAULT_CONFIG.api
+  ) {}
+
+  /**
+   * Sends a request, retrying transient failures
+   *
+   * @param request - The request to send
+   * @param signal - Aborts the request in flight and any pending retry
+   * @param beforeAttempt - Runs before every attempt, retries included,
+   * e.g. to take a rate limit token; errors it throws end the call
+   * @returns Promise containing the status, the parsed body (JSON when
+   * possible, text otherwise) and a record of every attempt
+   * @throws {ApiError} When the final attempt fails; `details` holds the
+   * status, body and attempts
+   * @throws {CancelledError} When the signal is aborted
+   */
+  async send(
+    request: ApiRequest,
+    signal?: AbortSignal,
+    beforeAttempt?: () => Promise<void>
+  ): Promise<HttpResponse> {
+    const attempts: HttpAttempt[] = []
+    const maxAttempts = this.config.retryAttempts + 1
+    const idempotent = IDEMPOTENT_METHODS.includes(request.method.toUpperCase())
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(signal)
+      await beforeAttempt?.()
+      const record: HttpAttempt = { attempt, durationMs: 0 }
+      attempts.push(record)
+      const startedAt = Date.now()
+
+      let response: Response | undefined
+      let failureStatus = 502
+      try {
+        response = await this.fetchWithTimeout(request, signal)
+      } catch (error) {
+        // The agent's own errors (cancellation, unmatched fixtures) are final
+        if (error instanceof AgentError && !(error instanceof ApiError)) {
+          throw error
+        }
+        record.error = error instanceof Error ? error.message : String(error)
+        if (error instanceof ApiError) failureStatus = error.statusCode
+      }
+      record.durationMs = Date.now() - startedAt
+
+      if (response) {
+        record.status = response.status
+        const body = await this.readBody(response)
+        if (response.ok) {
+          return { status: response.status, body, attempts }
+        }
+
+        const delay = this.retryDelay(response, attempt, idempotent)
+        if (attempt >= maxAttempts || delay === undefined) {
+          throw new ApiError(
+            `${request.method} ${this.describeUrl(request)} failed with status ${response.status}`,
+            response.status,
+            { status: response.status, body, attempts }
+          )
+        }
+        record.retryDelayMs = delay
+      } else {
+        if (attempt >= maxAttempts || !idempotent) {
+          throw new ApiError(
+            `${request.method} ${this.describeUrl(request)} failed: ${record.error}`,
+            failureStatus,
+            { attempts }
+          )
+        }
+        record.retryDelayMs = this.backoff(attempt)
+      }
+
+      console.warn(
+        `🔁 [HTTP] Attempt ${attempt} of ${request.method} ${this.describeUrl(request)} failed (${record.status ?? record.error}), retrying in ${record.retryDelayMs}ms`
+      )
+      await sleep(record.retryDelayMs, signal)
+    }
+  }
+
+  private async fetchWithTimeout(
+    request: ApiRequest,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.config.timeout)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort)
+    try {
+      return await this.fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      })
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError()
+      if (controller.signal.aborted) {
+        throw new ApiError(`Timed out after ${this.config.timeout}ms`, 504)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  // Milliseconds to wait before retrying, or undefined if not retryable
+  private retryDelay(
+    response: Response,
+    attempt: number,
+    idempotent: boolean
+  ): number | undefined {
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      if (retryAfter === undefined) {
+        return idempotent ? this.backoff(attempt) : undefined
+      }
+      return retryAfter <= this.config.maxRetryAfter ? retryAfter : undefined
+    }
+    return response.status >= 500 && idempotent
+      ? this.backoff(attempt)
+      : undefined
+  }
+
+  // Exponential backoff with "equal jitter": half fixed, half random
+  private backoff(attempt: number): number {
+    const delay = Math.min(
+      this.config.retryMaxDelay,
+      this.config.retryBaseDelay * 2 ** (attempt - 1)
+    )
+    return Math.round(delay / 2 + Math.random() * (delay / 2))
+  }
+
+  private async readBody(response: Response): Promise<unknown> {
+    const text = await response.text()
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  // The URL without its query string, which may carry credentials
+  private describeUrl(request: ApiRequest): string {
+    return request.url.split('?')[0]
+  }
+}
+
+// Waits for a delay, rejecting early if the signal is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new CancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { FixtureMismatchError } from './error-handling'
+import { FetchFunction } from './http-client'
+import {
+  FixtureFile,
+  FixtureStore,
+  HttpRecorder,
+  Redaction,
+  RecorderMode,
+} from './http-recorder'
+
+const redaction: Redaction = {
+  secrets: ['s3cr3t/key'],
+  queryParams: ['api_key'],
+}
+
+class MemoryStore implements FixtureStore {
+  files = new Map<string, FixtureFile>()
+
+  async load(name: string) {
+    return this.files.get(name)
+  }
+
+  async save(file: FixtureFile) {
+    this.files.set(file.name, file)
+  }
+}
+
+// Answers every call with the next body, and remembers what was asked
+function upstream(...bodies: string[]) {
+  const calls: string[] = []
+  const fetchFn: FetchFunction = async (input) => {
+    calls.push(String(input))
+    return new Response(bodies[Math.min(calls.length, bodies.length) - 1], {
+      headers: { 'content-type': 'application/json', 'x-request-id': 'abc' },
+    })
+  }
+  return { calls, fetchFn }
+}
+
+function recorder(
+  store: FixtureStore,
+  mode: RecorderMode,
+  fetchFn?: FetchFunction
+) {
+  return new HttpRecorder(store, 'movies', mode, () => redaction, fetchFn)
+}
+
+describe('HttpRecorder', () => {
+  it('records requests without credentials or extra headers', async () => {
+    const store = new MemoryStore()
+    const { fetchFn } = upstream('{"token":"s3cr3t/key","id":1}')
+
+    const response = await recorder(store, 'record', fetchFn).fetch(
+      'https://api.example.com/movie?page=1&api_key=s3cr3t%2Fkey',
+      { method: 'POST', body: '{"b":1,"a":"s3cr3t/key"}' }
+    )
+
+    expect(await response.text()).toBe('{"token":"s3cr3t/key","id":1}')
+    const [fixture] = store.files.get('movies')!.fixtures
+    expect(fixture.key).toBe(
+      'POST https://api.example.com/movie?page=1 {"a":"[REDACTED]","b":1}'
+    )
+    expect(fixture.request).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/movie?page=1',
+      body: '{"b":1,"a":"[REDACTED]"}',
+    })
+    expect(fixture.response).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: '{"token":"[REDACTED]","id":1}',
+    })
+  })
+
+  it('replays requests by their canonical form', async () => {
+    const store = new MemoryStore()
+    await recorder(store, 'record', upstream('{"id":1}').fetchFn).fetch(
+      'https://api.example.com/search?query=alien&page=1&api_key=one',
+      { method: 'POST', body: '{"a":1,"b":2}' }
+    )
+    const { calls, fetchFn } = upstream('{"id":2}')
+
+    const response = await recorder(store, 'replay', fetchFn).fetch(
+      'https://api.example.com/search?api_key=two&page=1&query=alien',
+      { method: 'POST', body: '{ "b": 2, "a": 1 }' }
+    )
+
+    expect(await response.json()).toEqual({ id: 1 })
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(calls).toEqual([])
+  })
+
+  it('replays repeated requests in order, then repeats the last', async () => {
+    const store = new MemoryStore()
+    const recording = recorder(store, 'record', upstream('1', '2').fetchFn)
+    await recording.fetch('https://api.example.com/count')
+    await recording.fetch('https://api.example.com/count')
+
+    const replaying = recorder(store, 'replay')
+    const bodies = []
+    for (let i = 0; i < 3; i++) {
+      bodies.push(
+        await (await replaying.fetch('https://api.example.com/count')).text()
+      )
+    }
+
+    expect(bodies).toEqual(['1', '2', '2'])
+  })
+
+  it('replaces recordings from earlier sessions and keeps the others', async () => {
+    const store = new MemoryStore()
+    const first = recorder(store, 'record', upstream('old').fetchFn)
+    await first.fetch('https://api.example.com/a')
+    await first.fetch('https://api.example.com/b')
+
+    await recorder(store, 'record', upstream('new').fetchFn).fetch(
+      'https://api.example.com/a'
+    )
+
+    const fixtures = store.files.get('movies')!.fixtures
+    expect(fixtures.map((f) => [f.key, f.response.body])).toEqual([
+      ['GET https://api.example.com/b', 'old'],
+      ['GET https://api.example.com/a', 'new'],
+    ])
+  })
+
+  it('fails requests without a recording', async () => {
+    const store = new MemoryStore()
+    await recorder(store, 'record', upstream('{}').fetchFn).fetch(
+      'https://api.example.com/movie?page=1'
+    )
+
+    await expect(
+      recorder(store, 'replay').fetch('https://api.example.com/movie?page=2')
+    ).rejects.toThrow(
+      'No recorded response for GET https://api.example.com/movie?page=2'
+    )
+  })
+
+  it('fails replay when the fixture file is missing', async () => {
+    await expect(
+      recorder(new MemoryStore(), 'replay').fetch('https://api.example.com/')
+    ).rejects.toBeInstanceOf(FixtureMismatchError)
+  })
+})
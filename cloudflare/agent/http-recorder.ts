@@ -0,0 +1,312 @@
+import { AgentError, FixtureMismatchError } from './error-handling'
+import { FetchFunction } from './http-client'
+import { Env } from './types'
+
+export type RecorderMode = 'record' | 'replay'
+
+export interface HttpFixture {
+  // Canonical form of the request, used to match it on replay
+  key: string
+  request: { method: string; url: string; body?: string }
+  response: { status: number; headers: Record<string, string>; body: string }
+}
+
+export interface FixtureFile {
+  name: string
+  recordedAt: number
+  fixtures: HttpFixture[]
+}
+
+/**
+ * Where fixture files are kept
+ */
+export interface FixtureStore {
+  load(name: string): Promise<FixtureFile | undefined>
+  save(file: FixtureFile): Promise<void>
+}
+
+/**
+ * What must not end up in a fixture: secret values anywhere in a request
+ * or response, and query parameters that carry credentials
+ */
+export interface Redaction {
+  secrets: string[]
+  queryParams: string[]
+}
+
+// Response headers worth keeping; the rest only adds noise to fixtures
+const RECORDED_HEADERS = ['content-type', 'retry-after']
+const REDACTED = '[REDACTED]'
+
+/**
+ * Stores fixture files as JSON objects in an R2 bucket
+ */
+export class R2FixtureStore implements FixtureStore {
+  constructor(
+    private bucket: R2Bucket,
+    private prefix: string = 'http-fixtures/'
+  ) {}
+
+  async load(name: string): Promise<FixtureFile | undefined> {
+    const object = await this.bucket.get(this.key(name))
+    return object ? ((await object.json()) as FixtureFile) : undefined
+  }
+
+  async save(file: FixtureFile) {
+    await this.bucket.put(this.key(file.name), JSON.stringify(file, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+    })
+  }
+
+  private key(name: string): string {
+    return `${this.prefix}${name}.json`
+  }
+}
+
+/**
+ * Records upstream HTTP traffic to fixture files and replays it
+ *
+ * Wraps the fetch function of the `HttpClient` used by tool execution. In
+ * `record` mode every call goes to the network and the request/response
+ * pair is added to the fixture file, with credentials redacted and
+ * request headers left out; recordings of other requests already in the
+ * file are kept, so several sessions can build up one file. In `replay`
+ * mode nothing reaches the network: each request is matched by its
+ * canonical form (method, URL with sorted query and no credential
+ * parameters, and JSON body with sorted keys) and answered from the file.
+ * Requests recorded several times are replayed in order, repeating the
+ * last response. A request without a recording fails with a
+ * `FixtureMismatchError`.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new HttpRecorder(new R2FixtureStore(bucket), 'ci', 'replay')
+ * const httpClient = new HttpClient(recorder.fetch)
+ * ```
+ */
+export class HttpRecorder {
+  private recorded?: Promise<HttpFixture[]>
+  // Requests re-recorded in this session, whose old recordings were dropped
+  private rerecorded = new Set<string>()
+  private saving: Promise<void> = Promise.resolve()
+  private replaying?: Promise<Map<string, HttpFixture[]>>
+  private served = new Map<string, number>()
+
+  /**
+   * Creates a new recorder
+   *
+   * @param store - Where fixture files are kept
+   * @param name - The fixture file to record to or replay from
+   * @param mode - Whether to record or replay
+   * @param redaction - Returns the secrets to redact; called per request
+   * so APIs registered later are covered
+   * @param fetchFn - The fetch implementation used when recording
+   */
+  constructor(
+    private store: FixtureStore,
+    private name: string,
+    readonly mode: RecorderMode,
+    private redaction: () => Redaction = () => ({
+      secrets: [],
+      queryParams: [],
+    }),
+    private fetchFn: FetchFunction = (input, init) => fetch(input, init)
+  ) {}
+
+  /**
+   * The fetch function to hand to the `HttpClient`
+   */
+  fetch: FetchFunction = async (input, init) => {
+    const request = new Request(input, init)
+    const body = init?.body === undefined ? undefined : String(init.body)
+    const redaction = this.redaction()
+    const key = canonicalRequest(request.method, request.url, body, redaction)
+
+    if (this.mode === 'replay') return this.replay(key)
+
+    this.recorded ??= this.store
+      .load(this.name)
+      .then((file) => file?.fixtures ?? [])
+    const response = await this.fetchFn(input, init)
+    const text = await response.text()
+
+    const recorded = await this.recorded
+    if (!this.rerecorded.has(key)) {
+      // Replace the recordings of this request from earlier sessions
+      this.rerecorded.add(key)
+      for (let i = recorded.length - 1; i >= 0; i--) {
+        if (recorded[i].key === key) recorded.splice(i, 1)
+      }
+    }
+    recorded.push({
+      key,
+      request: {
+        method: request.method,
+        url: redact(stripParams(request.url, redaction), redaction),
+        body: body === undefined ? undefined : redact(body, redaction),
+      },
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(
+          RECORDED_HEADERS.flatMap((name) => {
+            const value = response.headers.get(name)
+            return value === null ? [] : [[name, value]]
+          })
+        ),
+        body: redact(text, redaction),
+      },
+    })
+    await this.save(recorded)
+
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+
+  private async replay(key: string): Promise<Response> {
+    this.replaying ??= this.store.load(this.name).then((file) => {
+      if (!file) {
+        throw new FixtureMismatchError(
+          `No HTTP fixture file named ${this.name}`,
+          { fixtures: this.name }
+        )
+      }
+      const byKey = new Map<string, HttpFixture[]>()
+      for (const fixture of file.fixtures) {
+        byKey.set(fixture.key, [...(byKey.get(fixture.key) ?? []), fixture])
+      }
+      console.log(
+        `📼 [RECORDER] Replaying ${file.fixtures.length} responses from ${this.name}`
+      )
+      return byKey
+    })
+
+    const fixtures = (await this.replaying).get(key)
+    if (!fixtures) {
+      throw new FixtureMismatchError(
+        `No recorded response for ${key} in fixtures ${this.name}`,
+        { fixtures: this.name, request: key }
+      )
+    }
+    const index = this.served.get(key) ?? 0
+    this.served.set(key, index + 1)
+    const { response } = fixtures[Math.min(index, fixtures.length - 1)]
+    return new Response(response.body, {
+      status: response.status,
+      headers: response.headers,
+    })
+  }
+
+  // Writes are chained so the last one always holds every recording
+  private save(recorded: HttpFixture[]): Promise<void> {
+    const file: FixtureFile = {
+      name: this.name,
+      recordedAt: Date.now(),
+      fixtures: [...recorded],
+    }
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.store.save(file))
+    return this.saving
+  }
+}
+
+/**
+ * Sets up recording or replay from the environment
+ *
+ * `HTTP_FIXTURES` selects the mode (`record` or `replay`),
+ * `HTTP_FIXTURES_NAME` the fixture file (default `default`), and the files
+ * live in the `HTTP_FIXTURES_BUCKET` R2 bucket.
+ *
+ * @param env - The environment object
+ * @param redaction - Returns the secrets to keep out of fixtures
+ * @param fetchFn - The fetch implementation used when recording
+ * @returns The recorder, or undefined when `HTTP_FIXTURES` is not set
+ * @throws {AgentError} When the mode is unknown or the bucket is missing
+ */
+export function createHttpRecorder(
+  env: Env,
+  redaction: () => Redaction,
+  fetchFn?: FetchFunction
+): HttpRecorder | undefined {
+  if (!env.HTTP_FIXTURES) return undefined
+  if (env.HTTP_FIXTURES !== 'record' && env.HTTP_FIXTURES !== 'replay') {
+    throw new AgentError(
+      `HTTP_FIXTURES must be record or replay, got ${env.HTTP_FIXTURES}`,
+      'CONFIGURATION_ERROR'
+    )
+  }
+  if (!env.HTTP_FIXTURES_BUCKET) {
+    throw new AgentError(
+      'HTTP_FIXTURES needs an HTTP_FIXTURES_BUCKET binding',
+      'CONFIGURATION_ERROR'
+    )
+  }
+
+  const name = env.HTTP_FIXTURES_NAME || 'default'
+  console.log(`📼 [RECORDER] HTTP fixtures: ${env.HTTP_FIXTURES} ${name}`)
+  return new HttpRecorder(
+    new R2FixtureStore(env.HTTP_FIXTURES_BUCKET),
+    name,
+    env.HTTP_FIXTURES,
+    redaction,
+    fetchFn
+  )
+}
+
+// "GET https://host/path?a=1&b=2 <body>", without credentials
+function canonicalRequest(
+  method: string,
+  url: string,
+  body: string | undefined,
+  redaction: Redaction
+): string {
+  const parsed = new URL(stripParams(url, redaction))
+  parsed.searchParams.sort()
+  let canonicalBody = body
+  if (body !== undefined) {
+    try {
+      canonicalBody = JSON.stringify(sortKeys(JSON.parse(body)))
+    } catch {
+      // Not JSON; matched as is
+    }
+  }
+  return redact(
+    [method.toUpperCase(), parsed.toString(), canonicalBody]
+      .filter((part) => part !== undefined && part !== '')
+      .join(' '),
+    redaction
+  )
+}
+
+function stripParams(url: string, redaction: Redaction): string {
+  const parsed = new URL(url)
+  for (const param of redaction.queryParams) parsed.searchParams.delete(param)
+  return parsed.toString()
+}
+
+function redact(text: string, redaction: Redaction): string {
+  let out = text
+  for (const secret of redaction.secrets) {
+    if (!secret) continue
+    out = out.split(secret).join(REDACTED)
+    // Secrets also appear URL-encoded in query strings
+    const encoded = encodeURIComponent(secret)
+    if (encoded !== secret) out = out.split(encoded).join(REDACTED)
+  }
+  return out
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
@@ -0,0 +1,208 @@
+import {
+  listOperations,
+  OperationEntry,
+  summarizeParameters,
+} from './openapi-utils'
+import { OpenAPISpec } from './types'
+
+export interface LexicalMatch {
+  operationId: string
+  score: number
+  matchedTerms: string[]
+  entry: OperationEntry
+}
+
+interface IndexedOperation {
+  entry: OperationEntry
+  termFrequencies: Map<string, number>
+  length: number
+}
+
+// How much a term occurrence in each field counts towards its frequency
+const FIELD_WEIGHTS = {
+  operationId: 3,
+  summary: 2,
+  parameters: 1.5,
+  path: 1,
+  description: 1,
+}
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'by',
+  'for',
+  'from',
+  'get',
+  'i',
+  'in',
+  'is',
+  'me',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'what',
+  'which',
+  'who',
+  'with',
+])
+
+/**
+ * Splits text into normalized search terms
+ *
+ * Splits on anything that isn't a letter or digit (so `tv-season-credits`
+ * and `primary_release_date.gte` yield their parts) and strips simple
+ * plural suffixes so "movies" matches "movie".
+ *
+ * @param text - The text to tokenize
+ * @returns The normalized terms, stop words removed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term && !STOP_WORDS.has(term))
+    .map((term) =>
+      term.length > 4 && term.endsWith('ies')
+        ? term.slice(0, -3) + 'y'
+        : term.length > 3 && term.endsWith('s') && !term.endsWith('ss')
+          ? term.slice(0, -1)
+          : term
+    )
+}
+
+/**
+ * In-process BM25 index over the operations of an OpenAPI spec
+ *
+ * Each operation is indexed on its operationId, summary, description,
+ * path and parameter names, with per-field weights. The index needs no
+ * external service, so it works offline and when AutoRAG is unavailable.
+ *
+ * @example
+ * ```typescript
+ * const index = new LexicalIndex(tmdbOpenApi)
+ * index.search('season credits for a tv show', 5)
+ * // [{ operationId: 'tv-season-credits', score: 11.2, ... }, ...]
+ * ```
+ */
+export class LexicalIndex {
+  private operations: IndexedOperation[] = []
+  private documentFrequencies = new Map<string, number>()
+  private averageLength = 0
+
+  /**
+   * Builds the index for every operation of a spec
+   *
+   * @param spec - The OpenAPI document to index
+   */
+  constructor(spec: OpenAPISpec) {
+    for (const entry of listOperations(spec)) {
+      const termFrequencies = new Map<string, number>()
+      const add = (text: string | undefined, weight: number) => {
+        for (const term of tokenize(text || '')) {
+          termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight)
+        }
+      }
+
+      add(entry.operationId, FIELD_WEIGHTS.operationId)
+      add(entry.operation.summary, FIELD_WEIGHTS.summary)
+      add(entry.operation.description, FIELD_WEIGHTS.description)
+      add(entry.path.replace(/\{[^}]+\}/g, ''), FIELD_WEIGHTS.path)
+      add(
+        summarizeParameters(spec, entry)
+          .map((param) => param.name)
+          .join(' '),
+        FIELD_WEIGHTS.parameters
+      )
+
+      let length = 0
+      for (const [term, frequency] of termFrequencies) {
+        length += frequency
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) || 0) + 1
+        )
+      }
+      this.operations.push({ entry, termFrequencies, length })
+    }
+
+    this.averageLength =
+      this.operations.reduce((sum, op) => sum + op.length, 0) /
+      Math.max(this.operations.length, 1)
+  }
+
+  get size(): number {
+    return this.operations.length
+  }
+
+  /**
+   * Ranks operations against a query with BM25
+   *
+   * @param query - The natural language query
+   * @param limit - The maximum number of matches to return
+   * @returns Matches with a positive score, best first
+   */
+  search(query: string, limit: number = 10): LexicalMatch[] {
+    const queryTerms = [...new Set(tokenize(query))]
+    const matches: LexicalMatch[] = []
+
+    for (const op of this.operations) {
+      const match = this.score(op, queryTerms)
+      if (match.score > 0) matches.push(match)
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  /**
+   * Scores a single operation against a query
+   *
+   * Used to attach a lexical score to results that came from another
+   * source, such as the vector search.
+   *
+   * @param query - The natural language query
+   * @param operationId - The operation to score
+   * @returns The match (possibly with a score of 0), or undefined if the
+   * operation is not in the index
+   */
+  scoreOperation(query: string, operationId: string): LexicalMatch | undefined {
+    const op = this.operations.find(
+      (candidate) => candidate.entry.operationId === operationId
+    )
+    return op ? this.score(op, [...new Set(tokenize(query))]) : undefined
+  }
+
+  private score(op: IndexedOperation, queryTerms: string[]): LexicalMatch {
+    const total = this.operations.length
+    let score = 0
+    const matchedTerms: string[] = []
+
+    for (const term of queryTerms) {
+      const frequency = op.termFrequencies.get(term)
+      if (!frequency) continue
+      const documentFrequency = this.documentFrequencies.get(term) || 0
+      const idf = Math.log(
+        1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5)
+      )
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * op.length) / this.averageLength))
+      matchedTerms.push(term)
+    }
+
+    return {
+      operationId: op.entry.operationId,
+      score,
+      matchedTerms,
+      entry: op.entry,
+    }
+  }
+}
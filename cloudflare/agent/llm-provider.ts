@@ -0,0 +1,115 @@
+import { createOpenAI, OpenAIProvider } from '@ai-sdk/openai'
+import type { LanguageModel } from 'ai'
+import { createWorkersAI } from 'workers-ai-provider'
+import { AgentConfig, DEFAULT_CONFIG, StageModelConfig } from './config'
+import { AgentError } from './error-handling'
+import { Env } from './types'
+
+type WorkersAIProvider = ReturnType<typeof createWorkersAI>
+
+/**
+ * Resolves the language model of a pipeline stage
+ *
+ * Stages name a provider from `AgentConfig.ai.providers` and a model of
+ * it. Three kinds of provider are supported: `workers-ai` (the `AI`
+ * binding), `openai`, and `openai-compatible` for any server that speaks
+ * the OpenAI chat completions API at a base URL, such as a local
+ * llama.cpp or Ollama. API keys and base URLs can come from the
+ * environment, so the same config works on Cloudflare and off it.
+ * Provider clients are created on first use.
+ *
+ * @example
+ * ```typescript
+ * const provider = new LlmProvider(env)
+ * const result = await generateText({
+ *   model: provider.languageModel(stageModel('title')),
+ *   prompt,
+ * })
+ * ```
+ */
+export class LlmProvider {
+  private workersai?: WorkersAIProvider
+  private openai = new Map<string, OpenAIProvider>()
+
+  /**
+   * Creates a new provider registry
+   *
+   * @param env - The environment object holding the AI binding and keys
+   * @param providers - The configured providers, by name
+   */
+  constructor(
+    private env: Env,
+    private providers: AgentConfig['ai']['providers'] = DEFAULT_CONFIG.ai
+      .providers
+  ) {}
+
+  /**
+   * Returns the model to call for a stage
+   *
+   * @param settings - The stage's settings (see `stageModel`)
+   * @returns The language model, ready for generateText/streamText
+   * @throws {AgentError} When the provider is unknown or is missing its
+   * AI binding, API key or base URL
+   */
+  languageModel(settings: StageModelConfig): LanguageModel {
+    const config = this.providers[settings.provider]
+    if (!config) {
+      throw new AgentError(
+        `Unknown LLM provider: ${settings.provider}`,
+        'CONFIGURATION_ERROR'
+      )
+    }
+
+    if (config.type === 'workers-ai') {
+      if (!this.env.AI) {
+        throw new AgentError(
+          `LLM provider ${settings.provider} needs the AI binding`,
+          'CONFIGURATION_ERROR'
+        )
+      }
+      this.workersai ??= createWorkersAI({ binding: this.env.AI })
+      return this.workersai(settings.model as Parameters<WorkersAIProvider>[0])
+    }
+
+    let openai = this.openai.get(settings.provider)
+    if (!openai) {
+      openai = this.createOpenAI(settings.provider, config)
+      this.openai.set(settings.provider, openai)
+    }
+    return openai(settings.model)
+  }
+
+  private createOpenAI(
+    name: string,
+    config: AgentConfig['ai']['providers'][string]
+  ): OpenAIProvider {
+    const secrets = this.env as unknown as Record<string, string | undefined>
+    const baseURL =
+      (config.baseUrlEnv && secrets[config.baseUrlEnv]) || config.baseUrl
+    const apiKey = config.apiKeyEnv ? secrets[config.apiKeyEnv] : undefined
+
+    if (config.type === 'openai-compatible' && !baseURL) {
+      throw new AgentError(
+        `LLM provider ${name} needs a base URL${config.baseUrlEnv ? ` (${config.baseUrlEnv})` : ''}`,
+        'CONFIGURATION_ERROR'
+      )
+    }
+    if (config.type === 'openai' && !apiKey) {
+      throw new AgentError(
+        `LLM provider ${name} needs an API key (${config.apiKeyEnv})`,
+        'CONFIGURATION_ERROR'
+      )
+    }
+
+    console.log(
+      `🤖 [LLM] Using ${name} (${config.type}) at ${baseURL ?? 'OpenAI'}`
+    )
+    return createOpenAI({
+      name,
+      baseURL,
+      // Local servers usually accept any key
+      apiKey: apiKey ?? 'none',
+      compatibility: config.type === 'openai' ? 'strict' : 'compatible',
+    })
+  }
+}
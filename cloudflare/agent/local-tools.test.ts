@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeLocalTools,
+  findLocalToolErrors,
+  isLocalTool,
+  runLocalTool,
+} from './local-tools'
+import { ExecutionStep } from './types'
+
+function run(tool: string, parameters: Record<string, unknown>) {
+  const step: ExecutionStep = {
+    id: 'step2',
+    description: tool,
+    tool,
+    parameters,
+  }
+  return runLocalTool(step, parameters) as { results: unknown[] }
+}
+
+const movies = [
+  { id: 1, title: 'Alien', vote_average: 8.1, original_language: 'en' },
+  { id: 2, title: 'Amélie', vote_average: 7.9, original_language: 'fr' },
+  { id: 3, title: 'Unrated', original_language: 'en' },
+  { id: 4, title: 'Flop', vote_average: 3.2, original_language: 'en' },
+  { id: 5, title: 'Null', vote_average: null, original_language: 'de' },
+]
+
+describe('filter', () => {
+  it('keeps the items that match every condition', () => {
+    const { results } = run('filter', {
+      input: { results: movies },
+      where: [
+        { field: 'vote_average', op: 'gte', value: 7 },
+        { field: 'original_language', op: 'eq', value: 'EN' },
+      ],
+    })
+
+    expect(results).toEqual([movies[0]])
+  })
+
+  it('drops items without the field from ordering conditions', () => {
+    const { results } = run('filter', {
+      input: movies,
+      where: [{ field: 'vote_average', op: 'lt', value: 5 }],
+    })
+
+    expect(results).toEqual([movies[3]])
+  })
+
+  it('keeps items without the field for exists: false', () => {
+    const { results } = run('filter', {
+      input: movies,
+      where: [{ field: 'vote_average', op: 'exists', value: false }],
+    })
+
+    expect(results).toEqual([movies[2], movies[4]])
+  })
+})
+
+describe('sort', () => {
+  it('sorts by a field, with items without it last', () => {
+    const { results } = run('sort', {
+      input: movies,
+      by: 'vote_average',
+      order: 'desc',
+    })
+
+    expect(results.map((movie) => (movie as { id: number }).id)).toEqual([
+      1, 2, 4, 3, 5,
+    ])
+  })
+
+  it('orders ISO dates as text', () => {
+    const { results } = run('sort', {
+      input: [
+        { release_date: '2001-05-01' },
+        { release_date: '1979-05-25' },
+        { release_date: '' },
+      ],
+      by: 'release_date',
+    })
+
+    expect(results).toEqual([
+      { release_date: '1979-05-25' },
+      { release_date: '2001-05-01' },
+      { release_date: '' },
+    ])
+  })
+})
+
+describe('group_by', () => {
+  it('groups by a field, largest group first', () => {
+    const { results } = run('group_by', {
+      input: movies,
+      by: 'original_language',
+    })
+
+    expect(
+      results.map((group) => {
+        const { key, count } = group as { key: string; count: number }
+        return [key, count]
+      })
+    ).toEqual([
+      ['en', 3],
+      ['fr', 1],
+      ['de', 1],
+    ])
+  })
+
+  it('puts items with list values in a group per value', () => {
+    const { results } = run('group_by', {
+      input: [
+        { id: 1, genre_ids: [27, 878] },
+        { id: 2, genre_ids: [878] },
+        { id: 3 },
+      ],
+      by: 'genre_ids',
+    })
+
+    expect(results).toEqual([
+      {
+        key: 878,
+        count: 2,
+        items: [
+          { id: 1, genre_ids: [27, 878] },
+          { id: 2, genre_ids: [878] },
+        ],
+      },
+      { key: 27, count: 1, items: [{ id: 1, genre_ids: [27, 878] }] },
+      { key: null, count: 1, items: [{ id: 3 }] },
+    ])
+  })
+})
+
+describe('dedupe', () => {
+  it('drops items whose field was seen before', () => {
+    const { results } = run('dedupe', {
+      input: [
+        [{ id: 1, job: 'Director' }],
+        [{ id: 1, job: 'Writer' }, { id: 2 }],
+      ],
+      by: 'id',
+    })
+
+    expect(results).toEqual([{ id: 1, job: 'Director' }, { id: 2 }])
+  })
+
+  it('compares whole items without by', () => {
+    const { results } = run('dedupe', {
+      input: [{ id: 1 }, { id: 1 }, { id: 1, job: 'Writer' }],
+    })
+
+    expect(results).toEqual([{ id: 1 }, { id: 1, job: 'Writer' }])
+  })
+})
+
+describe('limit', () => {
+  it('keeps count items after offset', () => {
+    const { results } = run('limit', { input: movies, count: 2, offset: 1 })
+
+    expect(results).toEqual([movies[1], movies[2]])
+  })
+})
+
+describe('intersect', () => {
+  it('keeps the items of the first list found in every other list', () => {
+    const { results } = run('intersect', {
+      inputs: [
+        [{ id: 1, character: 'Ripley' }, { id: 2 }, { id: 1 }, { id: 3 }],
+        { results: [{ id: 1 }, { id: 3 }] },
+        [[{ id: 3 }], [{ id: 1 }]],
+      ],
+    })
+
+    expect(results).toEqual([{ id: 1, character: 'Ripley' }, { id: 3 }])
+  })
+})
+
+describe('count', () => {
+  it('counts the items', () => {
+    expect(run('count', { input: { results: movies } })).toEqual({ count: 5 })
+  })
+})
+
+describe('runLocalTool', () => {
+  it('rejects an input that is not a list', () => {
+    expect(() => run('count', { input: { page: 1 } })).toThrow(
+      'Step step2 (count): input must be a list, got object'
+    )
+  })
+
+  it('checks parameters filled in at execution time', () => {
+    expect(() => run('limit', { input: movies, count: -1 })).toThrow(
+      'Step step2 (limit): count must be a whole number, got -1'
+    )
+  })
+})
+
+describe('findLocalToolErrors', () => {
+  const step = (tool: string, parameters: Record<string, unknown>) => ({
+    id: 'step2',
+    description: tool,
+    tool,
+    parameters,
+  })
+
+  it('accepts valid parameters and placeholders', () => {
+    expect(
+      findLocalToolErrors(
+        step('sort', { input: '{{step1.results}}', by: 'title', order: 'asc' })
+      )
+    ).toEqual([])
+  })
+
+  it('reports missing, unknown and invalid parameters', () => {
+    expect(
+      findLocalToolErrors({
+        ...step('filter', {
+          query: { input: '{{step1.results}}' },
+          where: [{ field: 'vote_average', op: 'above', value: 7 }],
+        }),
+        max_pages: 2,
+      })
+    ).toEqual([
+      'Step step2 (filter): local tools do not support max_pages',
+      'Step step2 (filter): unknown parameter query; local tools take input, where directly, not under query or path',
+      'Step step2 (filter): missing input',
+      'Step step2 (filter): where has an invalid condition {"field":"vote_average","op":"above","value":7}; op must be one of eq, ne, gt, gte, lt, lte, contains, in, exists',
+    ])
+  })
+})
+
+describe('isLocalTool', () => {
+  it('knows the local tools only', () => {
+    expect(isLocalTool('group_by')).toBe(true)
+    expect(isLocalTool('search-movie')).toBe(false)
+    expect(isLocalTool('toString')).toBe(false)
+  })
+
+  it('documents every tool', () => {
+    expect(describeLocalTools()).toContain('- **intersect**:')
+  })
+})
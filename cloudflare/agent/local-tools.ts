@@ -0,0 +1,435 @@
+/**
+ * Local data tools
+ *
+ * Built-in tools that plans can use to process earlier results without
+ * calling an API: `filter`, `sort`, `limit`, `intersect`, `dedupe`, `count`
+ * and `group_by`. They run inside the `ToolExecutionService`, so the
+ * response model gets data that is already filtered, sorted and counted
+ * instead of having to do it itself.
+ *
+ * Unlike API tools, local tools take their parameters directly (not under
+ * `query` or `path`). Lists are usually passed as placeholders such as
+ * `"{{step2.results}}"`; an object with a `results` list stands for that
+ * list, and lists of lists (e.g. from fan-out steps) are flattened. Tools
+ * that produce a list return it as `{ "results": [...] }`, so steps can be
+ * chained like API results.
+ *
+ * @module LocalTools
+ */
+
+import { ExecutionError } from './error-handling'
+import { ExecutionStep } from './types'
+
+type Params = Record<string, unknown>
+
+interface LocalToolParameter {
+  type: 'list' | 'lists' | 'field' | 'integer' | 'conditions' | 'order'
+  required?: boolean
+  description: string
+}
+
+interface LocalTool {
+  description: string
+  parameters: Record<string, LocalToolParameter>
+  example: Params
+  run: (params: Params, step: ExecutionStep) => unknown
+}
+
+// Operators of filter conditions
+const OPERATORS: Record<
+  string,
+  (actual: unknown, expected: unknown) => boolean
+> = {
+  eq: (actual, expected) => looselyEqual(actual, expected),
+  ne: (actual, expected) => !looselyEqual(actual, expected),
+  // Items without the field never pass an ordering condition
+  gt: (actual, expected) => !isMissing(actual) && compare(actual, expected) > 0,
+  gte: (actual, expected) =>
+    !isMissing(actual) && compare(actual, expected) >= 0,
+  lt: (actual, expected) => !isMissing(actual) && compare(actual, expected) < 0,
+  lte: (actual, expected) =>
+    !isMissing(actual) && compare(actual, expected) <= 0,
+  // Substring of a text (ignoring case) or element of a list
+  contains: (actual, expected) =>
+    Array.isArray(actual)
+      ? actual.some((item) => looselyEqual(item, expected))
+      : typeof actual === 'string' &&
+        actual.toLowerCase().includes(String(expected).toLowerCase()),
+  in: (actual, expected) =>
+    Array.isArray(expected) &&
+    expected.some((item) => looselyEqual(actual, item)),
+  exists: (actual, expected) =>
+    (actual !== undefined && actual !== null) === (expected ?? true),
+}
+
+const LOCAL_TOOLS: Record<string, LocalTool> = {
+  filter: {
+    description: 'Keeps the items that match every condition.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+      where: {
+        type: 'conditions',
+        required: true,
+        description: `Conditions \`{ "field", "op", "value" }\`; op is one of ${Object.keys(OPERATORS).join(', ')}`,
+      },
+    },
+    example: {
+      input: '{{step2.results}}',
+      where: [{ field: 'vote_average', op: 'gte', value: 7 }],
+    },
+    run: (params, step) => {
+      const conditions = params.where as Array<{
+        field: string
+        op: string
+        value?: unknown
+      }>
+      return {
+        results: toList(params.input, 'input', step).filter((item) =>
+          conditions.every(({ field, op, value }) =>
+            OPERATORS[op](readField(item, field), value)
+          )
+        ),
+      }
+    },
+  },
+  sort: {
+    description: 'Sorts the items by a field; items without it come last.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+      by: { type: 'field', required: true, description: 'Field to sort by' },
+      order: { type: 'order', description: '`asc` (default) or `desc`' },
+    },
+    example: {
+      input: '{{step2.results}}',
+      by: 'release_date',
+      order: 'desc',
+    },
+    run: (params, step) => {
+      const by = String(params.by)
+      const direction = params.order === 'desc' ? -1 : 1
+      const items = toList(params.input, 'input', step)
+      return {
+        results: [...items].sort((a, b) => {
+          const x = readField(a, by)
+          const y = readField(b, by)
+          if (isMissing(x) || isMissing(y)) {
+            return Number(isMissing(x)) - Number(isMissing(y))
+          }
+          return compare(x, y) * direction
+        }),
+      }
+    },
+  },
+  limit: {
+    description: 'Keeps `count` items, after skipping `offset` of them.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+      count: {
+        type: 'integer',
+        required: true,
+        description: 'How many items to keep',
+      },
+      offset: { type: 'integer', description: 'How many to skip first' },
+    },
+    example: { input: '{{step3.results}}', count: 5 },
+    run: (params, step) => {
+      const offset = Number(params.offset ?? 0)
+      return {
+        results: toList(params.input, 'input', step).slice(
+          offset,
+          offset + Number(params.count)
+        ),
+      }
+    },
+  },
+  intersect: {
+    description:
+      'Keeps the items of the first list whose field value is in every other list.',
+    parameters: {
+      inputs: {
+        type: 'lists',
+        required: true,
+        description: 'Two or more lists',
+      },
+      by: { type: 'field', description: 'Field to match on (default `id`)' },
+    },
+    example: {
+      inputs: ['{{step2.cast}}', '{{step3.cast}}'],
+      by: 'id',
+    },
+    run: (params, step) => {
+      const by = String(params.by ?? 'id')
+      const [first, ...others] = (params.inputs as unknown[]).map(
+        (input, index) => toList(input, `inputs[${index}]`, step)
+      )
+      const keySets = others.map(
+        (list) => new Set(list.map((item) => keyOf(item, by)))
+      )
+      return {
+        results: dedupe(
+          first.filter((item) =>
+            keySets.every((keys) => keys.has(keyOf(item, by)))
+          ),
+          by
+        ),
+      }
+    },
+  },
+  dedupe: {
+    description:
+      'Drops items whose field value (or, without `by`, whole value) was seen before.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+      by: { type: 'field', description: 'Field that identifies an item' },
+    },
+    example: { input: '{{step2.results}}', by: 'id' },
+    run: (params, step) => ({
+      results: dedupe(
+        toList(params.input, 'input', step),
+        params.by === undefined ? undefined : String(params.by)
+      ),
+    }),
+  },
+  count: {
+    description: 'Counts the items; returns `{ "count": n }`.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+    },
+    example: { input: '{{step2.results}}' },
+    run: (params, step) => ({
+      count: toList(params.input, 'input', step).length,
+    }),
+  },
+  group_by: {
+    description:
+      'Groups the items by a field; returns `{ "results": [{ "key", "count", "items" }] }`, largest group first.',
+    parameters: {
+      input: { type: 'list', required: true, description: 'The items' },
+      by: { type: 'field', required: true, description: 'Field to group by' },
+    },
+    example: { input: '{{step2.results}}', by: 'original_language' },
+    run: (params, step) => {
+      const by = String(params.by)
+      const groups = new Map<string, { key: unknown; items: unknown[] }>()
+      for (const item of toList(params.input, 'input', step)) {
+        const key = readField(item, by)
+        // Items with list values (e.g. genre_ids) join a group per value
+        for (const value of Array.isArray(key) ? key : [key]) {
+          const id = JSON.stringify(value ?? null)
+          const group = groups.get(id)
+          if (group) group.items.push(item)
+          else groups.set(id, { key: value ?? null, items: [item] })
+        }
+      }
+      return {
+        results: [...groups.values()]
+          .map(({ key, items }) => ({ key, count: items.length, items }))
+          .sort((a, b) => b.count - a.count),
+      }
+    },
+  },
+}
+
+/**
+ * Whether a plan step's tool is a local data tool
+ *
+ * @param toolName - The step's tool
+ * @returns True for `filter`, `sort`, `limit`, `intersect`, `dedupe`,
+ * `count` and `group_by`
+ */
+export function isLocalTool(toolName: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LOCAL_TOOLS, toolName)
+}
+
+/**
+ * Documents the local data tools for the planning prompt
+ *
+ * @returns One entry per tool with its parameters and an example
+ */
+export function describeLocalTools(): string {
+  return Object.entries(LOCAL_TOOLS)
+    .map(([name, tool]) => {
+      const parameters = Object.entries(tool.parameters)
+        .map(
+          ([param, { required, description }]) =>
+            `  - \`${param}\`${required ? ' (Required)' : ''}: ${description}`
+        )
+        .join('\n')
+      return `- **${name}**: ${tool.description}\n${parameters}\n  Example parameters: \`${JSON.stringify(tool.example)}\``
+    })
+    .join('\n')
+}
+
+/**
+ * Checks a local tool step's parameters
+ *
+ * Values that are placeholders are checked when the step runs instead.
+ *
+ * @param step - A step whose tool is a local data tool
+ * @returns One message per problem; empty when the step is valid
+ */
+export function findLocalToolErrors(step: ExecutionStep): string[] {
+  const tool = LOCAL_TOOLS[step.tool]
+  const prefix = `Step ${step.id} (${step.tool})`
+  const errors: string[] = []
+
+  for (const key of ['for_each', 'max_pages', 'min_results'] as const) {
+    if (step[key] !== undefined) {
+      errors.push(`${prefix}: local tools do not support ${key}`)
+    }
+  }
+  for (const name of Object.keys(step.parameters)) {
+    if (!tool.parameters[name]) {
+      errors.push(
+        `${prefix}: unknown parameter ${name}; local tools take ${Object.keys(tool.parameters).join(', ')} directly, not under query or path`
+      )
+    }
+  }
+  for (const [name, param] of Object.entries(tool.parameters)) {
+    const value = step.parameters[name]
+    if (value === undefined) {
+      if (param.required) errors.push(`${prefix}: missing ${name}`)
+      continue
+    }
+    const error = checkParameter(value, param)
+    if (error) errors.push(`${prefix}: ${name} ${error}`)
+  }
+  return errors
+}
+
+/**
+ * Runs a local data tool
+ *
+ * @param step - The step being executed
+ * @param params - The step's interpolated parameters
+ * @returns The tool's result
+ * @throws {ExecutionError} When an input is not a list or a parameter
+ * that was filled in at execution time is invalid
+ */
+export function runLocalTool(step: ExecutionStep, params: Params): unknown {
+  const tool = LOCAL_TOOLS[step.tool]
+  for (const [name, param] of Object.entries(tool.parameters)) {
+    if (params[name] === undefined) continue
+    const error = checkParameter(params[name], param)
+    if (error) {
+      throw new ExecutionError(
+        `Step ${step.id} (${step.tool}): ${name} ${error}`,
+        {
+          stepId: step.id,
+        }
+      )
+    }
+  }
+  return tool.run(params, step)
+}
+
+// Describes why a parameter value doesn't fit its type; placeholders pass
+function checkParameter(
+  value: unknown,
+  param: LocalToolParameter
+): string | undefined {
+  if (typeof value === 'string' && value.includes('{{')) return undefined
+
+  switch (param.type) {
+    case 'field':
+      return typeof value === 'string' && value !== ''
+        ? undefined
+        : 'must be a field path such as "release_date" or "genre.name"'
+    case 'integer':
+      return Number.isInteger(Number(value)) && Number(value) >= 0
+        ? undefined
+        : `must be a whole number, got ${JSON.stringify(value)}`
+    case 'order':
+      return value === 'asc' || value === 'desc'
+        ? undefined
+        : `must be asc or desc, got ${JSON.stringify(value)}`
+    case 'lists':
+      return Array.isArray(value) && value.length >= 2
+        ? undefined
+        : 'must be a list of two or more lists'
+    case 'conditions': {
+      if (!Array.isArray(value) || value.length === 0) {
+        return 'must be a list of { "field", "op", "value" } conditions'
+      }
+      const invalid = value.find(
+        (condition) =>
+          typeof condition?.field !== 'string' ||
+          !Object.prototype.hasOwnProperty.call(OPERATORS, condition?.op)
+      )
+      return invalid
+        ? `has an invalid condition ${JSON.stringify(invalid)}; op must be one of ${Object.keys(OPERATORS).join(', ')}`
+        : undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+// Accepts a list, an object with a `results` list, or a list of lists
+function toList(value: unknown, name: string, step: ExecutionStep): unknown[] {
+  const list =
+    !Array.isArray(value) &&
+    Array.isArray((value as { results?: unknown } | null)?.results)
+      ? (value as { results: unknown[] }).results
+      : value
+  if (!Array.isArray(list)) {
+    throw new ExecutionError(
+      `Step ${step.id} (${step.tool}): ${name} must be a list, got ${typeof value}`,
+      { stepId: step.id }
+    )
+  }
+  return list.flatMap((item) => item)
+}
+
+// Reads a dotted field path of own properties
+function readField(item: unknown, path: string): unknown {
+  let current = item
+  for (const part of path.split('.')) {
+    if (
+      current === undefined ||
+      current === null ||
+      !Object.prototype.hasOwnProperty.call(current, part)
+    ) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[part]
+  }
+  return current
+}
+
+function dedupe(items: unknown[], by?: string): unknown[] {
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = by === undefined ? JSON.stringify(item) : keyOf(item, by)
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function keyOf(item: unknown, by: string): string {
+  return JSON.stringify(readField(item, by) ?? null)
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+// Numbers (or numeric strings) compare as numbers, everything else as text,
+// which also orders ISO dates
+function compare(a: unknown, b: unknown): number {
+  if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b)
+  return String(a ?? '').localeCompare(String(b ?? ''))
+}
+
+function isNumeric(value: unknown): boolean {
+  return (
+    (typeof value === 'number' ||
+      (typeof value === 'string' && value.trim() !== '')) &&
+    !isNaN(Number(value))
+  )
+}
+
+function looselyEqual(a: unknown, b: unknown): boolean {
+  return String(a).toLowerCase() === String(b).toLowerCase()
+}
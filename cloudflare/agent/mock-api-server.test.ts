@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { MockApiServer } from './mock-api-server'
+import { SpecRegistry } from './spec-registry'
+import { OpenAPISpec } from './types'
+
+const movie = {
+  type: 'object',
+  properties: { id: { type: 'integer' }, title: { type: 'string' } },
+}
+
+// The templated path comes first, like in TMDB's spec
+const spec = {
+  openapi: '3.0.0',
+  info: { title: 'Movies', version: '1' },
+  paths: {
+    '/movie/{movie_id}': {
+      get: {
+        operationId: 'movie-details',
+        parameters: [
+          {
+            name: 'movie_id',
+            in: 'path',
+            required: true,
+            schema: { type: 'integer' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: movie } },
+          },
+        },
+      },
+    },
+    '/movie/popular': {
+      get: {
+        operationId: 'movie-popular-list',
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    page: { type: 'integer' },
+                    total_pages: { type: 'integer' },
+                    results: { type: 'array', items: movie },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+} as unknown as OpenAPISpec
+
+const registry = new SpecRegistry([
+  {
+    id: 'movies',
+    name: 'Movies',
+    source: 'builtin',
+    baseUrl: 'https://movies.example.com',
+    auth: { type: 'none' },
+    foundationalTools: [],
+    loadSpec: async () => spec,
+  },
+])
+
+async function get(path: string) {
+  const server = new MockApiServer(registry)
+  const response = await server.handleRequest(
+    new Request(`http://localhost:3000/api/mock/movies${path}`)
+  )
+  return {
+    status: response.status,
+    body: (await response.json()) as Record<string, unknown>,
+  }
+}
+
+describe('MockApiServer', () => {
+  it('prefers a literal path over a templated one', async () => {
+    const { status, body } = await get('/movie/popular')
+
+    expect(status).toBe(200)
+    expect(body.page).toBe(1)
+    expect(Array.isArray(body.results)).toBe(true)
+    expect(body.id).toBeUndefined()
+  })
+
+  it('still matches the templated path for other values', async () => {
+    const { status, body } = await get('/movie/550')
+
+    expect(status).toBe(200)
+    expect(body.id).toBe(550)
+    expect(typeof body.title).toBe('string')
+  })
+
+  it('answers 404 for unknown paths', async () => {
+    const { status } = await get('/tv/popular')
+
+    expect(status).toBe(404)
+  })
+})
@@ -0,0 +1,421 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import { AgentError, createErrorResponse, handleError } from './error-handling'
+import { FetchFunction } from './http-client'
+import {
+  listOperations,
+  OperationEntry,
+  resolveRefs,
+  successResponseSchema,
+} from './openapi-utils'
+import { SpecRegistry } from './spec-registry'
+import { OpenAPISpec } from './types'
+
+type Schema = Record<string, unknown>
+
+interface MatchedOperation {
+  entry: OperationEntry
+  pathParams: Record<string, string>
+}
+
+// What generated values may depend on besides their seed
+interface GenerateContext {
+  query: URLSearchParams
+  // Path parameters of the request, e.g. { movie_id: '550' }
+  pathParams: Record<string, string>
+  depth: number
+}
+
+// Query parameters that only exist because of the proxy
+const IGNORED_QUERY = ['session_id']
+const MAX_DEPTH = 6
+const WORDS = [
+  'amber',
+  'harbor',
+  'silent',
+  'north',
+  'echo',
+  'velvet',
+  'iron',
+  'summer',
+  'glass',
+  'river',
+  'midnight',
+  'garden',
+]
+
+/**
+ * Mock server for the registered APIs
+ *
+ * Answers `/api/mock/:specId/<path>` for any operation of a spec in the
+ * registry, so the agent (and anything else) can run without API
+ * credentials. Responses use the example of the operation's success
+ * response when the spec has one, and are generated from its schema
+ * otherwise. Generated data is deterministic: an object with an `id` gets
+ * the same field values wherever it appears (a search result and the
+ * details of the same movie agree), the ID in a details path becomes the
+ * response's `id`, and list endpoints page through `pageSize` results for
+ * `totalPages` pages.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockApiServer(registry)
+ * toolExecutionService.overrideBaseUrls((specId) => mock.baseUrl(specId))
+ * const httpClient = new HttpClient(mock.fetch)
+ * // curl http://localhost:3000/api/mock/tmdb/3/movie/550
+ * ```
+ */
+export class MockApiServer {
+  /**
+   * Creates a new mock server
+   *
+   * @param registry - The APIs to mock
+   * @param config - Base URL and list sizes
+   * @param fallbackFetch - Sends requests for other URLs
+   */
+  constructor(
+    private registry: SpecRegistry,
+    private config: AgentConfig['mock'] = DEFAULT_CONFIG.mock,
+    private fallbackFetch: FetchFunction = (input, init) => fetch(input, init)
+  ) {}
+
+  /**
+   * The base URL to call an API's mock at
+   *
+   * @param specId - The mocked API
+   * @returns The URL that replaces the API's base URL
+   */
+  baseUrl(specId: string): string {
+    return `${this.config.baseUrl.replace(/\/$/, '')}/${encodeURIComponent(specId)}`
+  }
+
+  /**
+   * Fetch function that answers mock URLs in-process and sends everything
+   * else to the network
+   */
+  fetch: FetchFunction = async (input, init) => {
+    const request = new Request(input, init)
+    if (!request.url.startsWith(this.config.baseUrl.replace(/\/$/, '') + '/')) {
+      return this.fallbackFetch(input, init)
+    }
+    return this.handleRequest(request)
+  }
+
+  /**
+   * Handles a request to the mock routes
+   *
+   * @param request - A request for `/api/mock/:specId/<operation path>`
+   * @returns Promise containing the mocked JSON response
+   *
+   * @example
+   * ```typescript
+   * // GET /api/mock/tmdb/3/search/movie?query=Alien
+   * const response = await mock.handleRequest(request)
+   * // { page: 1, results: [{ id: 48213, title: 'Silent Harbor', ... }], ... }
+   * ```
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url)
+      const match = url.pathname.match(/\/api\/mock\/([^/]+)(\/.*)?$/)
+      if (!match) {
+        throw new AgentError('Not a mock API route', 'NOT_FOUND', 404)
+      }
+      const specId = decodeURIComponent(match[1])
+      if (!this.registry.has(specId)) {
+        throw new AgentError(`Unknown API: ${specId}`, 'NOT_FOUND', 404)
+      }
+
+      const spec = await this.registry.loadSpec(specId)
+      const operation = this.matchOperation(
+        spec,
+        request.method,
+        match[2] || '/'
+      )
+      if (!operation) {
+        throw new AgentError(
+          `No ${request.method} operation of ${specId} matches ${match[2] || '/'}`,
+          'NOT_FOUND',
+          404
+        )
+      }
+
+      const { status, body } = this.respond(spec, operation, url.searchParams)
+      console.log(
+        `🎭 [MOCK] ${request.method} ${specId} ${operation.entry.operationId} → ${status}`
+      )
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    } catch (error) {
+      return createErrorResponse(handleError(error))
+    }
+  }
+
+  // Literal paths win over templated ones, e.g. `/movie/popular` over
+  // `/movie/{movie_id}`: fewest path parameters first, then the longest
+  // literal prefix
+  private matchOperation(
+    spec: OpenAPISpec,
+    method: string,
+    path: string
+  ): MatchedOperation | undefined {
+    const candidates: MatchedOperation[] = []
+    for (const entry of listOperations(spec)) {
+      if (entry.method !== method.toLowerCase()) continue
+      const names: string[] = []
+      const pattern = entry.path
+        .split(/(\{[^}]+\})/)
+        .map((part) => {
+          const param = part.match(/^\{([^}]+)\}$/)
+          if (!param) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          names.push(param[1])
+          return '([^/]+)'
+        })
+        .join('')
+      const found = path.match(new RegExp(`^${pattern}/?$`))
+      if (found) {
+        candidates.push({
+          entry,
+          pathParams: Object.fromEntries(
+            names.map((name, i) => [name, decodeURIComponent(found[i + 1])])
+          ),
+        })
+      }
+    }
+
+    const literalPrefix = (match: MatchedOperation) => {
+      const index = match.entry.path.indexOf('{')
+      return index === -1 ? match.entry.path.length : index
+    }
+    return candidates.sort(
+      (a, b) =>
+        Object.keys(a.pathParams).length - Object.keys(b.pathParams).length ||
+        literalPrefix(b) - literalPrefix(a)
+    )[0]
+  }
+
+  private respond(
+    spec: OpenAPISpec,
+    { entry, pathParams }: MatchedOperation,
+    query: URLSearchParams
+  ): { status: number; body: unknown } {
+    const responses = entry.operation.responses || {}
+    const status = Number(
+      Object.keys(responses).find((code) => /^2\d\d$/.test(code)) ?? 200
+    )
+
+    const content = (
+      resolveRefs(responses[String(status)], spec) as {
+        content?: Record<string, { example?: unknown; examples?: unknown }>
+      }
+    )?.content?.['application/json']
+    const example =
+      content?.example ??
+      (
+        Object.values(
+          (content?.examples as Record<string, { value?: unknown }>) ?? {}
+        )[0] as { value?: unknown } | undefined
+      )?.value
+    if (example !== undefined) return { status, body: example }
+
+    const schema = successResponseSchema(spec, entry) as Schema | undefined
+    if (!schema) return { status, body: {} }
+
+    for (const name of IGNORED_QUERY) query.delete(name)
+    query.sort()
+    const page = query.get('page')
+    query.delete('page')
+    const seed = `${entry.operationId}?${query}#${JSON.stringify(pathParams)}`
+    if (page) query.set('page', page)
+
+    return {
+      status,
+      body: this.generate(schema, '', seed, { query, pathParams, depth: 0 }),
+    }
+  }
+
+  private generate(
+    schema: Schema,
+    key: string,
+    seed: string,
+    context: GenerateContext
+  ): unknown {
+    if (schema.example !== undefined) return schema.example
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[pick(seed, key, schema.enum.length)]
+    }
+    const variants = (schema.oneOf ?? schema.anyOf) as Schema[] | undefined
+    if (variants?.length) return this.generate(variants[0], key, seed, context)
+    if (Array.isArray(schema.allOf)) {
+      return this.generate(
+        Object.assign({}, ...(schema.allOf as Schema[])),
+        key,
+        seed,
+        context
+      )
+    }
+
+    const type = schema.type ?? (schema.properties ? 'object' : undefined)
+    switch (type) {
+      case 'object':
+        return this.generateObject(schema, key, seed, context)
+      case 'array':
+        return this.generateArray(schema, key, seed, context)
+      case 'string':
+        return mockString(key, String(schema.format ?? ''), seed)
+      case 'integer':
+        return this.mockInteger(key, seed, context)
+      case 'number':
+        return mockNumber(key, seed)
+      case 'boolean':
+        return key === 'adult' || key === 'video'
+          ? false
+          : pick(seed, key, 2) === 0
+      default:
+        return null
+    }
+  }
+
+  private generateObject(
+    schema: Schema,
+    key: string,
+    seed: string,
+    context: GenerateContext
+  ): unknown {
+    if (context.depth >= MAX_DEPTH) return {}
+    const properties = (schema.properties ?? {}) as Record<string, Schema>
+    const nested = { ...context, depth: context.depth + 1 }
+    const out: Record<string, unknown> = {}
+
+    // Objects with an id are seeded by it, so they agree across responses
+    let objectSeed = `${seed}.${key}`
+    if (properties.id) {
+      const pathId = context.depth === 0 && pathIdParam(context.pathParams)
+      out.id =
+        pathId && /^\d+$/.test(pathId)
+          ? Number(pathId)
+          : pathId || this.generate(properties.id, 'id', objectSeed, nested)
+      objectSeed = `id:${out.id}`
+    }
+
+    for (const [name, property] of Object.entries(properties)) {
+      if (name === 'id') continue
+      out[name] = this.generate(property, name, objectSeed, nested)
+    }
+    return out
+  }
+
+  private generateArray(
+    schema: Schema,
+    key: string,
+    seed: string,
+    context: GenerateContext
+  ): unknown[] {
+    if (context.depth >= MAX_DEPTH || !schema.items) return []
+    // Top-level `results` lists are paged like TMDB's
+    const paged = key === 'results' && context.depth === 1
+    const page = Number(context.query.get('page') ?? 1)
+    const length = paged
+      ? page <= this.config.totalPages
+        ? this.config.pageSize
+        : 0
+      : 2 + pick(seed, key, 3)
+
+    return Array.from({ length }, (_, i) =>
+      this.generate(
+        schema.items as Schema,
+        key,
+        `${seed}.${key}[${paged ? (page - 1) * length + i : i}]`,
+        { ...context, depth: context.depth + 1 }
+      )
+    )
+  }
+
+  private mockInteger(
+    key: string,
+    seed: string,
+    context: GenerateContext
+  ): number {
+    if (key === 'page') return Number(context.query.get('page') ?? 1)
+    if (key === 'total_pages') return this.config.totalPages
+    if (key === 'total_results') {
+      return this.config.totalPages * this.config.pageSize
+    }
+    if (key === 'id' || key.endsWith('_id')) return 1 + pick(seed, key, 999999)
+    if (key === 'runtime') return 80 + pick(seed, key, 100)
+    if (key.endsWith('_count')) return pick(seed, key, 20000)
+    if (key === 'budget' || key === 'revenue') {
+      return pick(seed, key, 300) * 1000000
+    }
+    return pick(seed, key, 1000)
+  }
+}
+
+// The ID in a details path such as /movie/{movie_id}
+function pathIdParam(pathParams: Record<string, string>): string | undefined {
+  const name = Object.keys(pathParams).find(
+    (param) => param === 'id' || param.endsWith('_id')
+  )
+  return name ? pathParams[name] : undefined
+}
+
+function mockString(key: string, format: string, seed: string): string {
+  if (format === 'date' || key.endsWith('_date') || key === 'birthday') {
+    const day = new Date(Date.UTC(1970, 0, 1) + pick(seed, key, 20000) * 864e5)
+    return day.toISOString().slice(0, 10)
+  }
+  if (format === 'date-time' || key.endsWith('_at')) {
+    return new Date(Date.UTC(2000, 0, 1) + pick(seed, key, 9000) * 864e5)
+      .toISOString()
+      .replace(/\.\d+Z$/, 'Z')
+  }
+  if (key.endsWith('_path')) return `/mock-${pick(seed, key, 1e6)}.jpg`
+  if (format === 'uri' || key === 'homepage' || key.endsWith('url')) {
+    return `https://example.com/${pick(seed, key, 1e6)}`
+  }
+  if (key.endsWith('_language') || key === 'iso_639_1') return 'en'
+  if (key === 'iso_3166_1' || key.endsWith('_country')) return 'US'
+  if (['overview', 'biography', 'description', 'content'].includes(key)) {
+    const text = words(seed, key, 8)
+    return `${text[0].toUpperCase()}${text.slice(1)}.`
+  }
+  if (
+    key === 'name' ||
+    key === 'title' ||
+    key === 'tagline' ||
+    key.startsWith('original_') ||
+    key === 'character'
+  ) {
+    // Original and display names of the same object agree
+    return capitalize(words(seed, 'name', 2))
+  }
+  return `${key || 'value'} ${pick(seed, key, 1000)}`
+}
+
+function mockNumber(key: string, seed: string): number {
+  if (key === 'vote_average') return pick(seed, key, 100) / 10
+  return pick(seed, key, 10000) / 100
+}
+
+// A stable pseudo-random integer in [0, max) for a seed and field
+function pick(seed: string, key: string, max: number): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (const char of `${seed}|${key}`) {
+    hash ^= char.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash % max
+}
+
+function words(seed: string, key: string, count: number): string {
+  return Array.from(
+    { length: count },
+    (_, i) => WORDS[pick(seed, `${key}${i}`, WORDS.length)]
+  ).join(' ')
+}
+
+function capitalize(text: string): string {
+  return text.replace(/\b\w/g, (char) => char.toUpperCase())
+}
@@ -0,0 +1,255 @@
+import { OpenAPIOperation, OpenAPISpec } from './types'
+
+export const HTTP_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'options',
+  'head',
+] as const
+
+export interface OperationSummary {
+  operationId: string
+  method: string
+  path: string
+  summary?: string
+  tags?: string[]
+}
+
+export interface OperationEntry extends OperationSummary {
+  operation: OpenAPIOperation
+}
+
+/**
+ * Walks every operation of an OpenAPI document
+ *
+ * Non-method keys of a path item (such as shared `parameters`) are skipped.
+ *
+ * @param spec - The OpenAPI document
+ * @returns One entry per operation, in document order
+ */
+export function listOperations(spec: OpenAPISpec): OperationEntry[] {
+  const operations: OperationEntry[] = []
+  for (const path in spec.paths) {
+    const pathItem = spec.paths[path] || {}
+    for (const method in pathItem) {
+      if (!(HTTP_METHODS as readonly string[]).includes(method)) continue
+      const operation = pathItem[method]
+      if (!operation || typeof operation !== 'object') continue
+      operations.push({
+        operationId: operation.operationId,
+        method,
+        path,
+        summary: operation.summary,
+        tags: operation.tags,
+        operation,
+      })
+    }
+  }
+  return operations
+}
+
+/**
+ * Finds a single operation by its operationId
+ *
+ * @param spec - The OpenAPI document
+ * @param operationId - The operation to look for
+ * @returns The matching operation entry, or undefined if not found
+ */
+export function findOperation(
+  spec: OpenAPISpec,
+  operationId: string
+): OperationEntry | undefined {
+  return listOperations(spec).find((op) => op.operationId === operationId)
+}
+
+/**
+ * Resolves local `$ref` pointers (`#/components/...`) in a spec fragment
+ *
+ * Returns a new value with every reference inlined. References that point
+ * back to one of their own ancestors are left as `{ $ref, circular: true }`
+ * so recursive schemas don't expand forever; unresolvable references are
+ * kept as-is.
+ *
+ * @param value - The fragment to resolve (e.g. an operation or schema)
+ * @param spec - The OpenAPI document the references point into
+ * @returns The fragment with references inlined
+ */
+export function resolveRefs<T = unknown>(value: T, spec: OpenAPISpec): T {
+  const resolve = (node: unknown, seen: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => resolve(item, seen))
+    }
+    if (!node || typeof node !== 'object') {
+      return node
+    }
+
+    const ref = (node as { $ref?: unknown }).$ref
+    if (typeof ref === 'string') {
+      if (seen.includes(ref)) {
+        return { $ref: ref, circular: true }
+      }
+      const target = lookupRef(ref, spec)
+      if (target === undefined) return node
+      // Sibling keys next to $ref (e.g. a description) override the target
+      const siblings = { ...(node as Record<string, unknown>) }
+      delete siblings.$ref
+      const resolved = resolve(target, [...seen, ref])
+      return resolved &&
+        typeof resolved === 'object' &&
+        !Array.isArray(resolved)
+        ? { ...resolved, ...(resolve(siblings, seen) as object) }
+        : resolved
+    }
+
+    const out: Record<string, unknown> = {}
+    for (const key in node as Record<string, unknown>) {
+      out[key] = resolve((node as Record<string, unknown>)[key], seen)
+    }
+    return out
+  }
+
+  return resolve(value, []) as T
+}
+
+function lookupRef(ref: string, spec: OpenAPISpec): unknown {
+  if (!ref.startsWith('#/')) return undefined
+  return ref
+    .slice(2)
+    .split('/')
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (acc, part) =>
+        acc && typeof acc === 'object'
+          ? (acc as Record<string, unknown>)[part]
+          : undefined,
+      spec
+    )
+}
+
+export interface ParameterSummary {
+  name: string
+  in: string
+  type: string
+  required: boolean
+  description?: string
+  enum?: unknown[]
+  default?: unknown
+}
+
+/**
+ * Lists an operation's parameters with their location and type
+ *
+ * Path-level parameters are merged in, and operation-level parameters
+ * with the same name and location take precedence.
+ *
+ * @param spec - The OpenAPI document
+ * @param entry - The operation to describe
+ * @returns One summary per parameter, required ones first
+ */
+export function summarizeParameters(
+  spec: OpenAPISpec,
+  entry: OperationEntry
+): ParameterSummary[] {
+  const pathItem = spec.paths[entry.path] as Record<string, unknown>
+  const raw = resolveRefs(
+    [
+      ...((pathItem?.parameters as unknown[]) || []),
+      ...(entry.operation.parameters || []),
+    ],
+    spec
+  ) as Array<Record<string, unknown>>
+
+  const byKey = new Map<string, ParameterSummary>()
+  for (const param of raw) {
+    if (typeof param?.name !== 'string' || typeof param.in !== 'string') {
+      continue
+    }
+    const schema = (param.schema || {}) as Record<string, unknown>
+    byKey.set(`${param.in}:${param.name}`, {
+      name: param.name,
+      in: param.in,
+      type: schemaType(schema),
+      required: param.required === true || param.in === 'path',
+      description:
+        typeof param.description === 'string' ? param.description : undefined,
+      enum: Array.isArray(schema.enum) ? schema.enum : undefined,
+      default: schema.default,
+    })
+  }
+
+  return [...byKey.values()].sort(
+    (a, b) => Number(b.required) - Number(a.required)
+  )
+}
+
+/**
+ * Flattens an object schema into dotted field paths
+ *
+ * Array items are marked with `[]` (e.g. `results[].title`), so the
+ * output reads like the paths a plan step would reference.
+ *
+ * @param schema - The (ref-resolved) schema to flatten
+ * @param maxDepth - How many object levels to descend into
+ * @returns One entry per field with its type
+ */
+export function flattenSchemaFields(
+  schema: unknown,
+  maxDepth: number = 2
+): Array<{ path: string; type: string }> {
+  const fields: Array<{ path: string; type: string }> = []
+
+  const walk = (node: unknown, prefix: string, depth: number) => {
+    if (!node || typeof node !== 'object') return
+    const s = node as Record<string, unknown>
+    if (s.type === 'array' || s.items) {
+      walk(s.items, `${prefix}[]`, depth)
+      return
+    }
+    const properties = s.properties as Record<string, unknown> | undefined
+    if (!properties || depth >= maxDepth) return
+    for (const key in properties) {
+      const path = prefix ? `${prefix}.${key}` : key
+      fields.push({ path, type: schemaType(properties[key]) })
+      walk(properties[key], path, depth + 1)
+    }
+  }
+
+  walk(schema, '', 0)
+  return fields
+}
+
+/**
+ * Finds the JSON schema of an operation's successful response
+ *
+ * @param spec - The OpenAPI document
+ * @param entry - The operation to inspect
+ * @returns The ref-resolved response schema, or undefined if none
+ */
+export function successResponseSchema(
+  spec: OpenAPISpec,
+  entry: OperationEntry
+): unknown {
+  const responses = entry.operation.responses || {}
+  const status = Object.keys(responses).find((code) => /^2\d\d$/.test(code))
+  if (!status) return undefined
+  const response = resolveRefs(responses[status], spec) as {
+    content?: Record<string, { schema?: unknown }>
+  }
+  return response?.content?.['application/json']?.schema
+}
+
+function schemaType(schema: unknown): string {
+  if (!schema || typeof schema !== 'object') return 'any'
+  const s = schema as Record<string, unknown>
+  if (s.type === 'array') return `${schemaType(s.items)}[]`
+  if (typeof s.type === 'string') {
+    return typeof s.format === 'string' && s.type === 'string'
+      ? `${s.type}(${s.format})`
+      : s.type
+  }
+  if (s.properties) return 'object'
+  return 'any'
+}
@@ -0,0 +1,214 @@
+import { DEFAULT_CONFIG } from './config'
+import {
+  flattenSchemaFields,
+  OperationEntry,
+  ParameterSummary,
+  resolveRefs,
+  successResponseSchema,
+  summarizeParameters,
+} from './openapi-utils'
+import { OpenAPISpec } from './types'
+
+// Longest summary/description kept for an operation
+const MAX_DESCRIPTION_CHARS = 200
+
+// Longest enum listed in full; longer ones are cut with a count
+const MAX_ENUM_VALUES = 8
+
+// Share of an operation's budget kept for response fields
+const RESPONSE_SHARE = 0.3
+
+// Headers set by the tool runtime, which the planner never needs to pass
+const TRANSPORT_HEADERS = new Set(['accept', 'authorization', 'content-type'])
+
+// Response fields most useful to later steps, listed before the rest
+const KEY_FIELD = /^(id|name|title|original_title|original_name)$/
+
+/**
+ * Roughly estimates how many LLM tokens a text uses
+ *
+ * Uses the common ~4 characters per token heuristic, which is close
+ * enough for budgeting prompt sections.
+ *
+ * @param text - The text to measure
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Renders compact documentation of an operation for the planning prompt
+ *
+ * `$ref`s are resolved and every parameter is written as
+ * `<location>.<name>`, matching how plan steps nest their parameters
+ * (`{ "query": { ... }, "path": { ... } }`). Required parameters come
+ * first and are always kept; optional parameters and then response fields
+ * are added until the token budget is reached, with a note of how many
+ * were left out. Response fields are ordered top-level and identifying
+ * fields (`id`, `name`, `title`) first, as later steps usually need those.
+ *
+ * @param spec - The OpenAPI document
+ * @param entry - The operation to render
+ * @param maxTokens - The token budget for this operation
+ * @returns The operation's documentation
+ *
+ * @example
+ * ```typescript
+ * renderOperationDoc(spec, findOperation(spec, 'movie-credits')!)
+ * // movie-credits: GET /3/movie/{movie_id}/credits
+ * // Summary: Credits
+ * // Required: path.movie_id (integer)
+ * // Optional: query.language (string, default en-US)
+ * // Returns: id (integer), cast[].id (integer), cast[].name (string), ...
+ * ```
+ */
+export function renderOperationDoc(
+  spec: OpenAPISpec,
+  entry: OperationEntry,
+  maxTokens: number = DEFAULT_CONFIG.planning.operationTokenBudget
+): string {
+  const { operation } = entry
+  const lines = [
+    `${entry.operationId}: ${entry.method.toUpperCase()} ${entry.path}`,
+  ]
+
+  const summary = [operation.summary, operation.description]
+    .filter((s): s is string => typeof s === 'string' && s.trim() !== '')
+    .join(' - ')
+    .replace(/\s+/g, ' ')
+  if (summary) {
+    lines.push(`Summary: ${truncate(summary, MAX_DESCRIPTION_CHARS)}`)
+  }
+
+  const parameters = [
+    ...summarizeParameters(spec, entry)
+      .filter(
+        (param) =>
+          param.in !== 'header' ||
+          !TRANSPORT_HEADERS.has(param.name.toLowerCase())
+      )
+      .map(describeParameter),
+    ...requestBodyParameters(spec, entry),
+  ]
+  const required = parameters.filter((param) => param.required)
+  const optional = parameters.filter((param) => !param.required)
+  lines.push(
+    `Required: ${required.map((param) => param.text).join(', ') || 'none'}`
+  )
+
+  const responseFields = flattenSchemaFields(successResponseSchema(spec, entry))
+    .sort((a, b) => fieldRank(a.path) - fieldRank(b.path))
+    .map((field) => `${field.path} (${field.type})`)
+
+  // Optional parameters may not crowd out the response fields entirely
+  let used = estimateTokens(lines.join('\n'))
+  const responseReserve = Math.min(
+    estimateTokens(responseFields.join(', ')) + 4,
+    Math.floor(maxTokens * RESPONSE_SHARE)
+  )
+  const optionalLine = fitList(
+    'Optional',
+    optional.map((param) => param.text),
+    maxTokens - used - responseReserve
+  )
+  if (optionalLine) {
+    lines.push(optionalLine)
+    used += estimateTokens(optionalLine) + 1
+  }
+  const responseLine = fitList('Returns', responseFields, maxTokens - used)
+  if (responseLine) lines.push(responseLine)
+
+  return lines.join('\n')
+}
+
+/**
+ * Joins documentation sections without exceeding a token budget
+ *
+ * Sections are taken in order, so callers should pass the most important
+ * ones first. A section that doesn't fit is skipped, but smaller ones
+ * after it may still be included.
+ *
+ * @param docs - The documentation sections, most important first
+ * @param maxTokens - The token budget for all sections together
+ * @returns The joined text and how many sections were left out
+ */
+export function packDocs(
+  docs: string[],
+  maxTokens: number = DEFAULT_CONFIG.planning.docTokenBudget
+): { text: string; omitted: number } {
+  const included: string[] = []
+  let used = 0
+
+  for (const doc of docs) {
+    const tokens = estimateTokens(doc) + 1
+    if (used + tokens > maxTokens) continue
+    included.push(doc)
+    used += tokens
+  }
+
+  return {
+    text: included.join('\n\n'),
+    omitted: docs.length - included.length,
+  }
+}
+
+function describeParameter(param: ParameterSummary) {
+  const details = [param.type]
+  if (param.enum) {
+    const values = param.enum.slice(0, MAX_ENUM_VALUES).join('|')
+    const more =
+      param.enum.length > MAX_ENUM_VALUES
+        ? `|…${param.enum.length - MAX_ENUM_VALUES} more`
+        : ''
+    details.push(`one of ${values}${more}`)
+  }
+  if (param.default !== undefined) details.push(`default ${param.default}`)
+
+  return {
+    required: param.required,
+    text: `${param.in}.${param.name} (${details.join(', ')})`,
+  }
+}
+
+// Top-level JSON body properties, written as `body.<name>`
+function requestBodyParameters(spec: OpenAPISpec, entry: OperationEntry) {
+  const requestBody = resolveRefs(entry.operation.requestBody, spec) as
+    { content?: Record<string, { schema?: unknown }> } | undefined
+  const schema = requestBody?.content?.['application/json']?.schema as
+    { required?: string[] } | undefined
+  const required = new Set(schema?.required || [])
+
+  return flattenSchemaFields(schema, 1).map((field) => ({
+    required: required.has(field.path),
+    text: `body.${field.path} (${field.type})`,
+  }))
+}
+
+// Lists as many items as fit the budget, noting how many were left out
+function fitList(label: string, items: string[], maxTokens: number) {
+  if (items.length === 0) return ''
+
+  const kept: string[] = []
+  let line = `${label}: `
+  for (const item of items) {
+    const next = kept.length ? `${line}, ${item}` : line + item
+    if (estimateTokens(next) + 6 > maxTokens) break
+    kept.push(item)
+    line = next
+  }
+
+  if (kept.length === 0) return `${label}: ${items.length} omitted`
+  const omitted = items.length - kept.length
+  return omitted > 0 ? `${line}, … ${omitted} more` : line
+}
+
+// Top-level fields first, then identifying fields of nested objects
+function fieldRank(path: string): number {
+  if (!path.includes('.') && !path.includes('[]')) return 0
+  return KEY_FIELD.test(path.split(/[.\]]/).pop() || '') ? 1 : 2
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.slice(0, maxChars - 1) + '…' : text
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CompletedStep,
+  findPlanGraphErrors,
+  findReusableSteps,
+  orderPlanSteps,
+} from './plan-graph'
+import { ExecutionPlan, ExecutionStep } from './types'
+
+function plan(steps: ExecutionStep[]): ExecutionPlan {
+  return { reasoning: '', expected_outcome: '', steps }
+}
+
+const search = (query: string): ExecutionStep => ({
+  id: 'step1',
+  description: `Find ${query}`,
+  tool: 'search-person',
+  parameters: { query: { query } },
+})
+
+const credits: ExecutionStep = {
+  id: 'step2',
+  description: 'Get their movies',
+  tool: 'person-movie-credits',
+  parameters: { path: { person_id: '{{step1.results[0].id}}' } },
+  depends_on: ['step1'],
+}
+
+// Records a run the way the orchestrator does
+function ran(
+  steps: ExecutionStep[],
+  results: Record<string, unknown>,
+  reused: Record<string, CompletedStep> = {}
+): CompletedStep[] {
+  const done: Record<string, CompletedStep> = { ...reused }
+  const completed: CompletedStep[] = []
+  for (const step of steps) {
+    if (step.id in reused) continue
+    done[step.id] = {
+      step,
+      result: results[step.id],
+      inputs: Object.fromEntries(
+        (step.depends_on || []).map((id) => [id, done[id]])
+      ),
+    }
+    completed.push(done[step.id])
+  }
+  return completed
+}
+
+const step = (id: string, dependsOn?: string[]): ExecutionStep => ({
+  id,
+  description: id,
+  tool: 'search-movie',
+  parameters: {},
+  depends_on: dependsOn,
+})
+
+describe('findPlanGraphErrors', () => {
+  it('accepts a valid graph', () => {
+    expect(
+      findPlanGraphErrors(plan([step('a'), step('b', ['a']), step('c', ['a'])]))
+    ).toEqual([])
+  })
+
+  it('reports duplicate ids and unknown dependencies', () => {
+    expect(
+      findPlanGraphErrors(plan([step('a'), step('a'), step('b', ['x'])]))
+    ).toEqual([
+      'Duplicate step id: a',
+      'Step b depends on x, which is not in the plan',
+    ])
+  })
+
+  it('reports the steps of a cycle', () => {
+    expect(
+      findPlanGraphErrors(
+        plan([step('a', ['c']), step('b', ['a']), step('c', ['b'])])
+      )
+    ).toEqual(['Dependency cycle: a → c → b → a'])
+  })
+
+  it('reports a step that depends on itself', () => {
+    expect(findPlanGraphErrors(plan([step('a', ['a'])]))).toEqual([
+      'Dependency cycle: a → a',
+    ])
+  })
+})
+
+describe('orderPlanSteps', () => {
+  it('puts every step after its dependencies, keeping plan order otherwise', () => {
+    const ordered = orderPlanSteps(
+      plan([step('c', ['b']), step('a'), step('b', ['a']), step('d')])
+    )
+
+    expect(ordered.map(({ id }) => id)).toEqual(['a', 'b', 'd', 'c'])
+  })
+
+  it('rejects an invalid graph', () => {
+    expect(() =>
+      orderPlanSteps(plan([step('a', ['b']), step('b', ['a'])]))
+    ).toThrow(/Invalid execution plan: Dependency cycle/)
+  })
+})
+
+describe('findReusableSteps', () => {
+  it('reuses unchanged steps', () => {
+    const completed = ran([search('Tom Hanks'), credits], {
+      step1: { results: [{ id: 31 }] },
+      step2: { cast: [] },
+    })
+
+    const reused = findReusableSteps(
+      plan([search('Tom Hanks'), credits]),
+      completed
+    )
+
+    expect(Object.keys(reused)).toEqual(['step1', 'step2'])
+    expect(reused.step2.result).toEqual({ cast: [] })
+  })
+
+  it('reuses a step under a new id', () => {
+    const completed = ran([search('Tom Hanks')], {
+      step1: { results: [{ id: 31 }] },
+    })
+
+    const reused = findReusableSteps(
+      plan([{ ...search('Tom Hanks'), id: 'find' }]),
+      completed
+    )
+
+    expect(reused.find.result).toEqual({ results: [{ id: 31 }] })
+  })
+
+  it('runs dependents again when a dependency runs again', () => {
+    const completed = ran([search('Tom Hanx'), credits], {
+      step1: { results: [{ id: 99 }] },
+      step2: { cast: ['wrong person'] },
+    })
+
+    const reused = findReusableSteps(
+      plan([search('Tom Hanks'), credits]),
+      completed
+    )
+
+    expect(reused).toEqual({})
+  })
+
+  it('reuses dependents with the results they ran on', () => {
+    const first = ran([search('Tom Hanx'), credits], {
+      step1: { results: [{ id: 99 }] },
+      step2: { cast: ['wrong person'] },
+    })
+    const second = ran([search('Tom Hanks'), credits], {
+      step1: { results: [{ id: 31 }] },
+      step2: { cast: ['Forrest Gump'] },
+    })
+
+    const reused = findReusableSteps(plan([search('Tom Hanks'), credits]), [
+      ...first,
+      ...second,
+    ])
+
+    expect(reused.step2.result).toEqual({ cast: ['Forrest Gump'] })
+  })
+})
@@ -0,0 +1,172 @@
+import { ExecutionError } from './error-handling'
+import { ExecutionPlan, ExecutionStep } from './types'
+
+/**
+ * Checks the dependency graph of a plan
+ *
+ * Reports duplicate step IDs, `depends_on` entries that name no step, and
+ * dependency cycles (with the steps that form them).
+ *
+ * @param plan - The plan to check
+ * @returns One message per problem; empty when the graph is valid
+ *
+ * @example
+ * ```typescript
+ * findPlanGraphErrors({ ...plan, steps: [{ id: 'step1', depends_on: ['step1'], ... }] })
+ * // ['Dependency cycle: step1 → step1']
+ * ```
+ */
+export function findPlanGraphErrors(plan: ExecutionPlan): string[] {
+  const errors: string[] = []
+  const ids = new Set<string>()
+
+  for (const step of plan.steps) {
+    if (ids.has(step.id)) errors.push(`Duplicate step id: ${step.id}`)
+    ids.add(step.id)
+  }
+
+  for (const step of plan.steps) {
+    for (const dependency of step.depends_on || []) {
+      if (!ids.has(dependency)) {
+        errors.push(
+          `Step ${step.id} depends on ${dependency}, which is not in the plan`
+        )
+      }
+    }
+  }
+
+  const cycle = findCycle(plan.steps)
+  if (cycle) errors.push(`Dependency cycle: ${cycle.join(' → ')}`)
+
+  return errors
+}
+
+/**
+ * Orders plan steps so every step comes after its dependencies
+ *
+ * Steps keep their plan order where dependencies allow it.
+ *
+ * @param plan - The plan to order
+ * @returns The steps in a valid execution order
+ * @throws {ExecutionError} When the dependency graph is invalid
+ */
+export function orderPlanSteps(plan: ExecutionPlan): ExecutionStep[] {
+  const errors = findPlanGraphErrors(plan)
+  if (errors.length > 0) {
+    throw new ExecutionError(`Invalid execution plan: ${errors.join('; ')}`, {
+      errors,
+    })
+  }
+
+  const ordered: ExecutionStep[] = []
+  const done = new Set<string>()
+  while (ordered.length < plan.steps.length) {
+    for (const step of plan.steps) {
+      if (done.has(step.id)) continue
+      if ((step.depends_on || []).every((dependency) => done.has(dependency))) {
+        ordered.push(step)
+        done.add(step.id)
+      }
+    }
+  }
+  return ordered
+}
+
+/**
+ * A plan step that ran successfully
+ */
+export interface CompletedStep {
+  step: ExecutionStep
+  result: unknown
+  // The completed steps its dependencies resolved to, by step ID
+  inputs: Record<string, CompletedStep>
+}
+
+/**
+ * Finds the steps of a plan that already ran successfully
+ *
+ * A step is done when an earlier run had a step with the same tool, API,
+ * parameters and dependencies, whatever its ID, and each dependency was
+ * itself reused with the result that step ran on. A step whose
+ * dependency runs again (e.g. a search with corrected inputs) runs again
+ * too, since its `{{...}}` references would resolve differently.
+ *
+ * @param plan - The plan about to run
+ * @param completed - The steps that succeeded in earlier runs
+ * @returns The reused steps, keyed by the step IDs of `plan`
+ * @throws {ExecutionError} When the dependency graph is invalid
+ *
+ * @example
+ * ```typescript
+ * const reused = findReusableSteps(revisedPlan, completed)
+ * await toolExecutionService.executePlan(revisedPlan, apiIds, {
+ *   completed: Object.fromEntries(
+ *     Object.entries(reused).map(([id, done]) => [id, done.result])
+ *   ),
+ * })
+ * ```
+ */
+export function findReusableSteps(
+  plan: ExecutionPlan,
+  completed: CompletedStep[]
+): Record<string, CompletedStep> {
+  const reused: Record<string, CompletedStep> = {}
+  for (const step of orderPlanSteps(plan)) {
+    const done = completed.find(
+      (entry) =>
+        stepSignature(entry.step) === stepSignature(step) &&
+        (step.depends_on || []).every(
+          (dependency) =>
+            reused[dependency] !== undefined &&
+            entry.inputs[dependency] === reused[dependency]
+        )
+    )
+    if (done) reused[step.id] = done
+  }
+  return reused
+}
+
+// What a step sends, independent of its ID and of how its result is used
+function stepSignature(step: ExecutionStep): string {
+  return JSON.stringify([
+    step.tool,
+    step.api,
+    step.parameters,
+    [...(step.depends_on || [])].sort(),
+    step.for_each,
+    step.max_items,
+    step.max_pages,
+    step.min_results,
+  ])
+}
+
+// Depth-first search for a cycle; returns its steps with the first repeated
+function findCycle(steps: ExecutionStep[]): string[] | undefined {
+  const stepMap = new Map(steps.map((step) => [step.id, step]))
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | undefined => {
+    if (state.get(id) === 'done') return undefined
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id]
+    }
+
+    state.set(id, 'visiting')
+    path.push(id)
+    for (const dependency of stepMap.get(id)?.depends_on || []) {
+      if (!stepMap.has(dependency)) continue
+      const cycle = visit(dependency)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(id, 'done')
+    return undefined
+  }
+
+  for (const step of steps) {
+    const cycle = visit(step.id)
+    if (cycle) return cycle
+  }
+  return undefined
+}
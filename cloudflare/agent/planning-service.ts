@@ -1,8 +1,18 @@
 import type { Message as VercelMessage } from 'ai'
 import { generateObject } from 'ai'
-import { createWorkersAI } from 'workers-ai-provider'
 import { z } from 'zod'
-import { Env, ExecutionPlan } from './types'
+import { ModelOverrides, stageModel } from './config'
+import {
+  PlanningError,
+  throwIfCancelled,
+  ValidationError,
+} from './error-handling'
+import { LlmProvider } from './llm-provider'
+import { describeLocalTools } from './local-tools'
+import { findOperation, summarizeParameters } from './openapi-utils'
+import { SpecRegistry } from './spec-registry'
+import { Env, ExecutionPlan, OpenAPISpec, PlanObservation } from './types'
+import { RequestValidator } from './validation'
 
 const planSchema = z.object({
   reasoning: z.string(),
@@ -13,15 +23,35 @@ const planSchema = z.object({
       tool: z.string(),
       parameters: z.record(z.any()),
       depends_on: z.array(z.string()).optional(),
+      api: z.string().optional(),
+      for_each: z.string().optional(),
+      max_items: z.number().optional(),
+      max_pages: z.number().optional(),
+      min_results: z.number().optional(),
+      select: z.array(z.string()).optional(),
     })
   ),
   expected_outcome: z.string(),
 })
 
 export class PlanningService {
-  constructor(private env: Env) {}
+  constructor(
+    private env: Env,
+    private specRegistry: SpecRegistry,
+    private llmProvider: LlmProvider = new LlmProvider(env)
+  ) {}
 
-  private buildPlanningPrompt(apiDocs: string, userQuery: string): string {
+  private buildPlanningPrompt(
+    apiDocs: string,
+    userQuery: string,
+    apiIds: string[]
+  ): string {
+    const multiApiRule =
+      apiIds.length > 1
+        ? `- **Several APIs are available (${apiIds.join(
+            ', '
+          )}). Documentation is prefixed with \`[api: <id>]\`. Set the \`api\` field of every step to the id of the API that owns its tool.**\n`
+        : ''
     return `You are an AI agent that creates execution plans for API queries.
 
 Given a user query and relevant API documentation, create a detailed execution plan with specific API calls using the actual operation IDs from the provided API documentation.
@@ -32,6 +62,10 @@ Given a user query and relevant API documentation, create a detailed execution p
 ### Available API Documentation
 ${apiDocs}
 
+### Local Data Tools
+These tools process the results of earlier steps without calling an API. Use them to filter, sort, limit, intersect, dedupe, count or group results instead of leaving that to the final answer. They take their parameters directly (not under \`query\` or \`path\`), have no \`api\`, and return lists as \`{ "results": [...] }\`. An input can be a list, an object with a \`results\` list, or a list of lists (e.g. a \`for_each\` step's result), which is flattened.
+${describeLocalTools()}
+
 ### General Planning Guidelines
 - **Use the most specific and relevant API parameters and endpoints.**
 - **For date-based queries, use appropriate date range parameters (e.g., \`release_date.gte\`, \`primary_release_date.lte\`).**
@@ -40,16 +74,22 @@ ${apiDocs}
   2. Then, for each ID, call the appropriate detail endpoint.
   3. Aggregate the results to answer the user's question.
 - **Always pass real IDs or other required data from previous step results to subsequent API calls.** For example, use \`{{step1.results.0.id}}\` to pass the ID from the first result of step 1.
-- **If a previous step returns a list, you MUST ONLY process the *first* item.** For example, use \`{{step1.results.0.id}}\` to get the ID of the first movie found. Never use wildcards like \`*\`.
+- **To process every item of a list returned by a previous step, set \`for_each\` to the list (e.g. \`"for_each": "{{step1.results}}"\`) and reference the current item as \`{{item}}\` or \`{{item.id}}\` in the parameters.** The step then runs once per item and its result is an array. Use \`max_items\` to limit how many items are processed (e.g. 5 for "top 5"). Never use wildcards like \`*\`.
+- **List endpoints with a \`query.page\` parameter only return one page (about 20 results).** When the user wants all or many results (e.g. "all Pixar movies"), set \`max_pages\` (e.g. 3) or \`min_results\` (e.g. 50) on the step; the pages are fetched for you and their \`results\` merged. Never add a step per page.
+- **Set \`select\` on steps whose results answer the question to the fields the answer needs** (e.g. \`"select": ["results.title", "results.release_date"]\`). Other fields are dropped before the answer is written, so include every field you will mention.
+- **If only one item of a list is needed, reference it directly** (e.g. \`{{step1.results.0.id}}\`).
+- **Placeholders can combine and transform values.** A string may hold several placeholders and text (e.g. \`"{{step1.results.0.id}},{{step2.results.0.id}}"\` or \`"person {{step1.results.0.name}}"\`). Inside a placeholder, \`??\` gives a fallback (\`{{step1.results.0.id ?? 'none'}}\`) and \`|\` applies a filter: \`join(',')\`, \`first\`, \`last\`, \`pluck('id')\`, \`slice(0, 3)\`, \`date('YYYY-MM-DD')\` or \`default('x')\` (e.g. \`{{step1.results | pluck('id') | slice(0, 3) | join(',')}}\`). No other operators or filters exist.
+- **Steps run in parallel unless ordered by \`depends_on\`.** Only list the steps whose results a step actually uses, so independent lookups (e.g. the credits of several movies) run at the same time.
 - **If the query is ambiguous, retrieve a broad set of results and filter or aggregate as needed.**
 - **Ensure the plan is as short and efficient as possible (2–4 steps max), but covers all necessary dependencies.**
-- **Only use tools/endpoints that exist in the provided API documentation.**
+- **Only use tools/endpoints that exist in the provided API documentation, plus the local data tools.**
 
 ### CRITICAL RULE
-- **You MUST ONLY use the tools listed in the "Available API Documentation".**
-- **NEVER invent a tool for any purpose.** All data processing happens *after* the plan is executed.
-- **ALL tool parameters MUST be nested under a \`query\` or \`path\` key.** Path parameters (like \`movie_id\`) go under \`path\`. All other parameters go under \`query\`.
-
+- **You MUST ONLY use the tools listed in the "Available API Documentation" and the "Local Data Tools".**
+- **NEVER invent a tool for any purpose.** Process data with the local data tools, not with made-up endpoints.
+- **ALL API tool parameters MUST be nested under a \`query\` or \`path\` key.** Path parameters (like \`movie_id\`) go under \`path\`. All other parameters go under \`query\`.
+- **The documentation lists each parameter as \`<location>.<name>\` (e.g. \`path.movie_id\`, \`query.query\`, \`body.value\`). Nest every parameter under exactly that location key, and always provide the \`Required\` ones.**
+${multiApiRule}
 ### Planning Rules
 - **Output ONLY valid JSON.**
 - **Your response will be ignored and retried if it's not valid JSON.**
@@ -77,44 +117,173 @@ ${apiDocs}
     "expected_outcome": "The plot summary for the movie Inception."
   }
   \`\`\`
+- **Example of a plan that processes several items of a list:**
+  \`\`\`json
+  {
+    "reasoning": "To get the runtimes of Pixar's top 5 movies, I need Pixar's company ID, its most popular movies, then the details of each of the first 5.",
+    "steps": [
+      {
+        "id": "step1",
+        "tool": "search-company",
+        "description": "Find the ID for the company 'Pixar'.",
+        "parameters": { "query": { "query": "Pixar" } },
+        "depends_on": []
+      },
+      {
+        "id": "step2",
+        "tool": "discover-movie",
+        "description": "List Pixar's most popular movies.",
+        "parameters": { "query": { "with_companies": "{{step1.results.0.id}}", "sort_by": "popularity.desc" } },
+        "depends_on": ["step1"]
+      },
+      {
+        "id": "step3",
+        "tool": "movie-details",
+        "description": "Get the details, including runtime, of each movie.",
+        "for_each": "{{step2.results}}",
+        "max_items": 5,
+        "parameters": { "path": { "movie_id": "{{item.id}}" } },
+        "depends_on": ["step2"]
+      }
+    ],
+    "expected_outcome": "The runtimes of Pixar's 5 most popular movies."
+  }
+  \`\`\`
 `
   }
 
   async createExecutionPlan(
     userQuery: string,
     apiDocs: string,
-    conversationHistory: VercelMessage[]
+    conversationHistory: VercelMessage[],
+    apiIds: string[] = [],
+    signal?: AbortSignal,
+    models?: ModelOverrides
   ): Promise<ExecutionPlan> {
-    const workersai = createWorkersAI({ binding: this.env.AI })
-    const model = workersai('@cf/deepseek-ai/deepseek-r1-distill-qwen-32b')
-    const prompt =
-      this.buildPlanningPrompt(apiDocs, userQuery) +
+    const plan = await this.generatePlan(
+      this.buildPrompt(userQuery, apiDocs, conversationHistory, apiIds),
+      apiIds,
+      signal,
+      models
+    )
+    return plan ?? (await this.createFallbackPlan(userQuery, apiIds))
+  }
+
+  /**
+   * Revises a plan after observing how it ran
+   *
+   * The planner gets the original prompt plus the previous plan, the
+   * results its successful steps produced and the problems found (failed
+   * steps, references that resolved to nothing, empty searches), and is
+   * asked for a plan that works around them. Successful steps it keeps
+   * unchanged, with unchanged dependencies, are not run again (see
+   * `findReusableSteps`).
+   *
+   * @param userQuery - The user's query
+   * @param apiDocs - The documentation the first plan was made from
+   * @param conversationHistory - Previous conversation messages
+   * @param apiIds - The APIs the plan may use
+   * @param observation - The previous plan, its partial results and issues
+   * @param signal - Stops planning when aborted
+   * @param models - Per-request model overrides
+   * @returns Promise containing the revised plan, or null if no valid plan
+   * could be produced
+   *
+   * @example
+   * ```typescript
+   * const revised = await planningService.revisePlan(query, docs, history, ['tmdb'], {
+   *   plan,
+   *   results: { step1: { results: [] } },
+   *   issues: ['step1 (search-company) returned no results'],
+   * })
+   * ```
+   */
+  async revisePlan(
+    userQuery: string,
+    apiDocs: string,
+    conversationHistory: VercelMessage[],
+    apiIds: string[],
+    observation: PlanObservation,
+    signal?: AbortSignal,
+    models?: ModelOverrides
+  ): Promise<ExecutionPlan | null> {
+    return this.generatePlan(
+      this.buildPrompt(userQuery, apiDocs, conversationHistory, apiIds) +
+        this.buildRevisionPrompt(observation),
+      apiIds,
+      signal,
+      models
+    )
+  }
+
+  private buildPrompt(
+    userQuery: string,
+    apiDocs: string,
+    conversationHistory: VercelMessage[],
+    apiIds: string[]
+  ): string {
+    return (
+      this.buildPlanningPrompt(apiDocs, userQuery, apiIds) +
       '\n' +
       conversationHistory
         .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
         .join('\n') +
       `\nUser: ${userQuery}`
+    )
+  }
+
+  // Asks the model for a plan, feeding validation errors back to it;
+  // returns null when no attempt produced a valid plan
+  private async generatePlan(
+    prompt: string,
+    apiIds: string[],
+    signal?: AbortSignal,
+    models?: ModelOverrides
+  ): Promise<ExecutionPlan | null> {
+    const settings = stageModel('planning', models)
+    const model = this.llmProvider.languageModel(settings)
+
+    const specs: Record<string, OpenAPISpec> = {}
+    for (const apiId of apiIds) {
+      specs[apiId] = await this.specRegistry.loadSpec(apiId)
+    }
 
     let plan: ExecutionPlan | null = null
+    let feedback = ''
     let attempts = 0
     while (attempts < 3) {
+      throwIfCancelled(signal)
       try {
         const result = await generateObject({
           model,
-          prompt,
+          prompt: prompt + feedback,
           schema: planSchema,
+          temperature: settings.temperature,
+          maxTokens: settings.maxTokens,
+          maxRetries: settings.maxRetries,
+          abortSignal: signal,
         })
-        plan = result.object as ExecutionPlan
-        if (
-          typeof plan === 'object' &&
-          plan !== null &&
-          'reasoning' in plan &&
-          'steps' in plan &&
-          Array.isArray(plan.steps)
-        ) {
+        const candidate = result.object as ExecutionPlan
+        try {
+          RequestValidator.validateExecutionPlan(
+            candidate as unknown as Record<string, unknown>,
+            specs
+          )
+          plan = candidate
           break
+        } catch (e) {
+          if (!(e instanceof ValidationError)) throw e
+          const errors = (e.details?.errors as string[]) || [e.message]
+          console.warn(
+            '🧠 [PLANNING] Plan failed validation, attempt',
+            attempts + 1,
+            errors
+          )
+          // Ask the model to correct its own plan on the next attempt
+          feedback = this.buildCorrectionPrompt(candidate, errors)
         }
       } catch (e) {
+        throwIfCancelled(signal)
         console.warn(
           '🧠 [PLANNING] Plan parse/validation failed, attempt',
           attempts + 1,
@@ -124,30 +293,104 @@ ${apiDocs}
       attempts++
     }
 
-    if (!plan) {
-      plan = this.createFallbackPlan(userQuery)
-    }
     return plan
   }
 
-  private createFallbackPlan(userQuery: string): ExecutionPlan {
+  private buildRevisionPrompt(observation: PlanObservation): string {
+    return `
+
+### Your Previous Plan Did Not Work Out
+\`\`\`json
+${JSON.stringify(observation.plan, null, 2)}
+\`\`\`
+
+Running it produced these results (shortened):
+\`\`\`json
+${JSON.stringify(observation.results, null, 2)}
+\`\`\`
+
+These problems were found:
+${observation.issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return a revised plan that works around every problem above, for example by using a broader search, a different endpoint, or the IDs that are present in the results. Do not repeat a step that failed with the same parameters. A step that succeeded is not run again if you keep it unchanged (same id, tool, parameters and depends_on) and every step it depends on is kept unchanged too; its result above is reused. Changing a step runs it again, along with every step that depends on it.`
+  }
+
+  private buildCorrectionPrompt(plan: ExecutionPlan, errors: string[]): string {
+    return `
+
+### Your Previous Plan Was Invalid
+\`\`\`json
+${JSON.stringify(plan, null, 2)}
+\`\`\`
+
+It was rejected for these reasons:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Return a corrected plan that fixes every error above. Only use operationIds and parameters from the "Available API Documentation" and the "Local Data Tools".`
+  }
+
+  /**
+   * Builds a one-step plan when the model produced no valid plan
+   *
+   * Runs the first foundational tool of the selected APIs that searches
+   * by a single text query (e.g. TMDB's `search-multi`) with the user's
+   * question.
+   *
+   * @param userQuery - The user's query
+   * @param apiIds - The APIs the plan may use, in order
+   * @returns Promise containing the fallback plan
+   * @throws {PlanningError} When none of the APIs has such a search tool
+   *
+   * @private
+   */
+  private async createFallbackPlan(
+    userQuery: string,
+    apiIds: string[]
+  ): Promise<ExecutionPlan> {
     const safeQuery =
       typeof userQuery === 'string' ? userQuery.slice(0, 500) : ''
-    return {
-      reasoning:
-        'Fallback plan: search for user query using the most relevant endpoint.',
-      steps: [
-        {
-          id: 'step1',
-          description: 'Search for relevant data based on the user query.',
-          tool: 'search-multi',
-          parameters: {
-            query: { query: safeQuery },
-          },
-          depends_on: [],
-        },
-      ],
-      expected_outcome: 'A list of search results for the user query.',
+
+    for (const apiId of apiIds) {
+      const definition = this.specRegistry.get(apiId)
+      if (!definition) continue
+      const spec = await this.specRegistry.loadSpec(apiId)
+      for (const tool of definition.foundationalTools) {
+        const entry = findOperation(spec, tool)
+        if (entry?.method !== 'get') continue
+        const required = summarizeParameters(spec, entry).filter(
+          (param) => param.required
+        )
+        const [param] = required
+        if (
+          required.length !== 1 ||
+          param.in !== 'query' ||
+          !param.type.startsWith('string')
+        ) {
+          continue
+        }
+
+        return {
+          reasoning: `Fallback plan: search ${definition.name} for the user query.`,
+          steps: [
+            {
+              id: 'step1',
+              description: 'Search for relevant data based on the user query.',
+              tool,
+              api: apiId,
+              parameters: {
+                query: { [param.name]: safeQuery },
+              },
+              depends_on: [],
+            },
+          ],
+          expected_outcome: 'A list of search results for the user query.',
+        }
+      }
     }
+
+    throw new PlanningError(
+      'Could not plan this request, and the selected APIs have no search tool to fall back on',
+      { apis: apiIds }
+    )
   }
 }
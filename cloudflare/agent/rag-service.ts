@@ -1,231 +1,316 @@
-import { DEFAULT_CONFIG } from './config'
-import { Env } from './types'
+import type { Message as VercelMessage } from 'ai'
+import { generateText } from 'ai'
+import { DEFAULT_CONFIG, ModelOverrides, stageModel } from './config'
+import { throwIfCancelled } from './error-handling'
+import { LexicalIndex, LexicalMatch } from './lexical-index'
+import { LlmProvider } from './llm-provider'
+import { findOperation, listOperations } from './openapi-utils'
+import { RankedResult, Reranker, RerankCandidate } from './reranker'
+import { renderOperationText } from './spec-chunker'
+import { SpecRegistry } from './spec-registry'
+import { ApiSpecDefinition, Env, OpenAPISpec } from './types'
+import { VectorStore } from './vector-store'
+
+// Earlier messages the query rewrite sees
+const REWRITE_HISTORY_MESSAGES = 4
+const MAX_SEARCH_QUERY_CHARS = 200
 
 /**
- * Service for RAG operations using AutoRAG
+ * Service for hybrid RAG operations using AutoRAG and a lexical index
  *
- * This service handles searching through TMDB API documentation
- * to find relevant endpoints and operation details for user queries.
+ * This service handles searching through API documentation to find
+ * relevant endpoints and operation details for user queries. Vector
+ * results from AutoRAG are combined with an in-process BM25 index over the
+ * spec's operations, which also serves as the fallback when AutoRAG is
+ * unavailable, and reranked into one explainable ranking.
  */
 export class RagService {
   private config = DEFAULT_CONFIG
+  private lexicalIndexes = new WeakMap<OpenAPISpec, LexicalIndex>()
 
   /**
    * Creates a new RAG service instance
    *
    * @param env - The environment object containing AI bindings
+   * @param specRegistry - Registry used to load specs for lexical search
+   * @param llmProvider - Resolves the model of the query rewrite
+   * @param vectorStore - The store spec ingestion writes to; searched
+   * instead of AutoRAG when it supports queries (Vectorize)
    */
-  constructor(private env: Env) {}
+  constructor(
+    private env: Env,
+    private specRegistry: SpecRegistry,
+    private llmProvider: LlmProvider = new LlmProvider(env),
+    private vectorStore?: VectorStore
+  ) {}
+
+  /**
+   * Rewrites the user's question into a documentation search query
+   *
+   * Uses the `rag-rewrite` model stage and the last few messages, so
+   * follow-up questions ("and its sequel?") become self-contained. The
+   * stage is off by default: the question is then returned as is and
+   * AutoRAG rewrites it itself. Falls back to the question when the model
+   * call fails.
+   *
+   * @param userQuery - The user's natural language query
+   * @param conversationHistory - Previous conversation messages
+   * @param models - Per-request model overrides
+   * @param signal - Stops the model call when aborted
+   * @returns Promise containing the search query
+   * @throws {CancelledError} When the signal is aborted
+   */
+  async rewriteQuery(
+    userQuery: string,
+    conversationHistory: VercelMessage[] = [],
+    models?: ModelOverrides,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const settings = stageModel('rag-rewrite', models)
+    if (!settings.enabled) return userQuery
+
+    const history = conversationHistory
+      .slice(-REWRITE_HISTORY_MESSAGES - 1, -1)
+      .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n')
+
+    try {
+      const { text } = await generateText({
+        model: this.llmProvider.languageModel(settings),
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        maxRetries: settings.maxRetries,
+        abortSignal: signal,
+        prompt: `Rewrite the last user question as a short search query for API documentation. Name the kind of data and the action (e.g. "search movies by title", "person movie credits"). Reply with the query only.
+
+${history ? `Conversation so far:\n${history}\n\n` : ''}Question: ${userQuery}`,
+      })
+      const query = text
+        .trim()
+        .split('\n')[0]
+        .replace(/^["']|["']$/g, '')
+        .slice(0, MAX_SEARCH_QUERY_CHARS)
+      console.log('🔍 [RAG] Rewrote query to:', query)
+      return query || userQuery
+    } catch (error) {
+      throwIfCancelled(signal)
+      console.warn('⚠️ [RAG] Query rewrite failed, using the question:', error)
+      return userQuery
+    }
+  }
 
   /**
    * Searches API documentation for relevant endpoints
    *
-   * Uses Cloudflare's AutoRAG to search through TMDB API documentation
-   * and find the most relevant endpoints for a given user query.
+   * Runs the AutoRAG vector search (when the API has an index) and the
+   * lexical search side by side, then reranks the union of both with a
+   * calibrated score. Each result keeps its real vector score and carries
+   * its lexical score, category and an explanation of its ranking. If
+   * AutoRAG fails, the lexical results are ranked on their own.
    *
    * @param userQuery - The user's natural language query
+   * @param api - The API whose documentation should be searched
+   * @param searchQuery - The rewritten query for the vector search (see
+   * `rewriteQuery`); the lexical search matches the user's own words
    * @returns Promise containing search results with relevant API documentation
    *
    * @example
    * ```typescript
-   * const ragService = new RagService(env)
-   * const results = await ragService.searchApiDocumentation("Find action movies")
+   * const ragService = new RagService(env, specRegistry)
+   * const results = await ragService.searchApiDocumentation(
+   *   "Find action movies",
+   *   specRegistry.get('tmdb')!
+   * )
    * ```
    */
-  async searchApiDocumentation(userQuery: string) {
-    console.log('🔍 [RAG] Searching for:', userQuery)
+  async searchApiDocumentation(
+    userQuery: string,
+    api: ApiSpecDefinition,
+    searchQuery: string = userQuery
+  ) {
+    console.log('🔍 [RAG] Searching', api.id, 'for:', userQuery)
 
-    try {
-      // Use AutoRAG to search through TMDB API documentation
-      const autorag = this.env.AI.autorag(this.config.rag.indexName)
-      const searchResult = await autorag.search({
-        query: userQuery,
-        rewrite_query: true,
-        max_num_results: this.config.rag.maxResults,
-        ranking_options: {
-          score_threshold: this.config.rag.scoreThreshold,
-        },
-      })
-
-      console.log(
-        '✅ [RAG] Found',
-        searchResult.data.length,
-        'relevant endpoints'
-      )
+    const spec = await this.specRegistry.loadSpec(api.id)
+    const lexicalMatches = this.getLexicalIndex(spec).search(
+      userQuery,
+      this.config.rag.maxResults
+    )
 
-      // Enhance the results with better context
-      const enhancedResults = {
-        ...searchResult,
-        data: searchResult.data.map(
-          (chunk: Record<string, unknown>, index: number) => ({
-            ...chunk,
-            relevance_score: searchResult.data.length - index, // Higher score for more relevant results
-            operation_id: this.extractOperationId(chunk),
-            endpoint_type: this.categorizeEndpoint(chunk),
-          })
-        ),
+    let vectorChunks: Array<Record<string, unknown>> | undefined
+    const vectorStore = this.vectorStore?.search ? this.vectorStore : undefined
+    if (vectorStore || api.ragIndexName) {
+      try {
+        vectorChunks = vectorStore
+          ? await this.searchVectorStore(vectorStore, searchQuery, api)
+          : await this.searchAutoRag(
+              searchQuery,
+              api.ragIndexName!,
+              // Let AutoRAG rewrite questions that weren't rewritten yet
+              searchQuery === userQuery
+            )
+      } catch (error) {
+        console.warn(
+          '⚠️ [RAG] Vector search unavailable, using lexical search only:',
+          error
+        )
+        if (lexicalMatches.length === 0) {
+          throw new Error(
+            `Failed to search API documentation: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        }
       }
+    }
 
-      return enhancedResults
-    } catch (error) {
-      console.error('❌ [RAG] Error searching API documentation:', error)
+    console.log(
+      '✅ [RAG] Lexical search found',
+      lexicalMatches.length,
+      'endpoints'
+    )
 
-      // Provide a fallback response if AutoRAG is not available
-      if (
-        error instanceof Error &&
-        error.message.includes('Cannot read properties of undefined')
-      ) {
-        console.warn('⚠️ [RAG] Using fallback documentation')
-        return this.getFallbackDocumentation(userQuery)
-      }
+    return {
+      data: this.rankResults(spec, userQuery, vectorChunks, lexicalMatches),
+      search_query: searchQuery,
+      object: 'vector_store.search_results.page',
+    }
+  }
 
-      throw new Error(
-        `Failed to search API documentation: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      )
+  // Queries the Vectorize index the spec was ingested into
+  private async searchVectorStore(
+    store: VectorStore,
+    searchQuery: string,
+    api: ApiSpecDefinition
+  ): Promise<Array<Record<string, unknown>>> {
+    const results = await store.search!(searchQuery, api.id, {
+      maxResults: this.config.rag.maxResults,
+      scoreThreshold: this.config.rag.scoreThreshold,
+    })
+    console.log(
+      '✅ [RAG] Found',
+      results.length,
+      `relevant endpoints via ${store.name}`
+    )
+    return results as unknown as Array<Record<string, unknown>>
+  }
+
+  // Uses AutoRAG to search through the API documentation index
+  private async searchAutoRag(
+    searchQuery: string,
+    indexName: string,
+    rewrite: boolean
+  ): Promise<Array<Record<string, unknown>>> {
+    const searchResult = await this.env.AI.autorag(indexName).search({
+      query: searchQuery,
+      rewrite_query: rewrite,
+      max_num_results: this.config.rag.maxResults,
+      ranking_options: {
+        score_threshold: this.config.rag.scoreThreshold,
+      },
+    })
+    console.log(
+      '✅ [RAG] Found',
+      searchResult.data.length,
+      'relevant endpoints via AutoRAG'
+    )
+    return searchResult.data
+  }
+
+  private getLexicalIndex(spec: OpenAPISpec): LexicalIndex {
+    let index = this.lexicalIndexes.get(spec)
+    if (!index) {
+      index = new LexicalIndex(spec)
+      this.lexicalIndexes.set(spec, index)
     }
+    return index
   }
 
   /**
-   * Provides fallback documentation when AutoRAG is not available
+   * Merges vector and lexical candidates and reranks them
    *
-   * @param userQuery - The user's query
-   * @returns Fallback documentation
+   * Candidates are keyed by operation, so an operation found by both
+   * searches appears once, keeping its real vector score. Lexical-only
+   * operations get their documentation rendered straight from the spec.
+   *
+   * @param spec - The OpenAPI document being searched
+   * @param userQuery - The user's natural language query
+   * @param vectorChunks - Chunks returned by AutoRAG or the vector store,
+   * or undefined if the vector search did not run
+   * @param lexicalMatches - Matches from the lexical index
+   * @returns The reranked results, best first
    *
    * @private
    */
-  private getFallbackDocumentation(userQuery: string) {
-    console.log('RAG Service: Using fallback documentation')
+  private rankResults(
+    spec: OpenAPISpec,
+    userQuery: string,
+    vectorChunks: Array<Record<string, unknown>> | undefined,
+    lexicalMatches: LexicalMatch[]
+  ): RankedResult[] {
+    const candidates = new Map<string, RerankCandidate>()
 
-    // Return comprehensive TMDB API documentation for common endpoints
-    const fallbackDocs = [
-      {
-        id: 'search-movie',
-        content: [
-          {
-            type: 'text',
-            text: 'search-movie: Search for movies by title, keywords, or other criteria. Parameters: query (string), include_adult (boolean), language (string), primary_release_year (string), page (integer), region (string), year (string)',
-          },
-        ],
-        score: 0.95,
-        operation_id: 'search-movie',
-        endpoint_type: 'search',
-      },
-      {
-        id: 'discover-movie',
-        content: [
-          {
-            type: 'text',
-            text: 'discover-movie: Discover movies with filters like genre, year, rating, etc. Parameters: with_genres (string), with_companies (string), with_cast (string), with_crew (string), with_people (string), primary_release_date.gte (string), primary_release_date.lte (string), primary_release_year.gte (string), primary_release_year.lte (string), sort_by (string), page (integer), vote_average.gte (number), vote_average.lte (number)',
-          },
-        ],
-        score: 0.9,
-        operation_id: 'discover-movie',
-        endpoint_type: 'discover',
-      },
-      {
-        id: 'movie-details',
-        content: [
-          {
-            type: 'text',
-            text: 'movie-details: Get detailed information about a specific movie by ID. Parameters: movie_id (path, integer, required), append_to_response (string), language (string)',
-          },
-        ],
-        score: 0.85,
-        operation_id: 'movie-details',
-        endpoint_type: 'details',
-      },
-      {
-        id: 'movie-credits',
-        content: [
-          {
-            type: 'text',
-            text: 'movie-credits: Get the cast and crew for a movie. Parameters: movie_id (path, integer, required), language (string)',
-          },
-        ],
-        score: 0.8,
-        operation_id: 'movie-credits',
-        endpoint_type: 'credits',
-      },
-      {
-        id: 'search-person',
-        content: [
-          {
-            type: 'text',
-            text: 'search-person: Search for people (actors, directors, etc.) by name. Parameters: query (string), include_adult (boolean), language (string), page (integer)',
-          },
-        ],
-        score: 0.75,
-        operation_id: 'search-person',
-        endpoint_type: 'search',
-      },
-      {
-        id: 'search-company',
-        content: [
-          {
-            type: 'text',
-            text: 'search-company: Search for production companies by name. Parameters: query (string), page (integer)',
-          },
-        ],
-        score: 0.72,
-        operation_id: 'search-company',
-        endpoint_type: 'search',
-      },
-      {
-        id: 'person-details',
-        content: [
-          {
-            type: 'text',
-            text: 'person-details: Get detailed information about a person by ID. Parameters: person_id (path, integer, required), append_to_response (string), language (string)',
-          },
-        ],
-        score: 0.7,
-        operation_id: 'person-details',
-        endpoint_type: 'details',
-      },
-      {
-        id: 'person-movie-credits',
-        content: [
-          {
-            type: 'text',
-            text: 'person-movie-credits: Get the movie credits for a person. Parameters: person_id (path, integer, required), language (string)',
-          },
-        ],
-        score: 0.65,
-        operation_id: 'person-movie-credits',
-        endpoint_type: 'credits',
-      },
-      {
-        id: 'genre-movie-list',
-        content: [
-          {
-            type: 'text',
-            text: 'genre-movie-list: Get the list of official genres for movies. Parameters: language (string)',
-          },
-        ],
-        score: 0.6,
-        operation_id: 'genre-movie-list',
-        endpoint_type: 'genre',
-      },
-    ]
+    ;(vectorChunks || []).forEach((chunk, rank) => {
+      const operationId = this.extractOperationId(spec, chunk)
+      const key = operationId ?? `chunk:${rank}`
+      const existing = candidates.get(key)
 
-    return {
-      data: fallbackDocs,
-      search_query: userQuery,
-      object: 'vector_store.search_results.page',
+      if (existing) {
+        // Another part of an operation we already have: keep its text too
+        existing.chunk.content = [
+          ...(existing.chunk.content as unknown[]),
+          ...((chunk.content as unknown[]) || []),
+        ]
+        existing.vectorScore = Math.max(
+          existing.vectorScore ?? 0,
+          Number(chunk.score) || 0
+        )
+        return
+      }
+
+      candidates.set(key, {
+        operationId,
+        entry: operationId ? findOperation(spec, operationId) : undefined,
+        vectorScore: Number(chunk.score) || 0,
+        chunk,
+      })
+    })
+
+    for (const match of lexicalMatches) {
+      if (candidates.has(match.operationId)) continue
+      candidates.set(match.operationId, {
+        operationId: match.operationId,
+        entry: match.entry,
+        chunk: {
+          id: match.operationId,
+          content: [
+            { type: 'text', text: renderOperationText(spec, match.entry) },
+          ],
+        },
+      })
     }
+
+    return new Reranker(this.getLexicalIndex(spec), this.config.rag)
+      .rerank(userQuery, [...candidates.values()], vectorChunks !== undefined)
+      .slice(0, this.config.rag.maxResults)
   }
 
   /**
    * Extracts operation ID from API documentation chunk
    *
+   * Chunks written by the ingestion pipeline start with an
+   * `operationId:` line; otherwise the first `METHOD /path` line is
+   * matched against the spec.
+   *
+   * @param spec - The OpenAPI document being searched
    * @param chunk - The API documentation chunk
    * @returns The extracted operation ID or null
    *
    * @private
    */
-  private extractOperationId(chunk: Record<string, unknown>): string | null {
+  private extractOperationId(
+    spec: OpenAPISpec,
+    chunk: Record<string, unknown>
+  ): string | null {
     try {
       const content = chunk.content as Array<Record<string, unknown>>
       if (!content || !Array.isArray(content)) return null
@@ -245,10 +330,14 @@ export class RagService {
 
       // Look for endpoint patterns
       const endpointMatch = textContent.match(
-        /(GET|POST|PUT|DELETE)\s+([^\s]+)/i
+        /(GET|POST|PUT|PATCH|DELETE)\s+(\/[^\s]*)/i
       )
       if (endpointMatch) {
-        return this.convertPathToOperationId(endpointMatch[2])
+        const method = endpointMatch[1].toLowerCase()
+        const operation = listOperations(spec).find(
+          (entry) => entry.method === method && entry.path === endpointMatch[2]
+        )
+        return operation?.operationId ?? null
       }
 
       return null
@@ -257,74 +346,4 @@ export class RagService {
       return null
     }
   }
-
-  /**
-   * Converts API path to operation ID
-   *
-   * @param path - The API path
-   * @returns The operation ID
-   *
-   * @private
-   */
-  private convertPathToOperationId(path: string): string {
-    // Convert path like "/3/movie/{movie_id}" to "movie-details"
-    const pathParts = path.split('/').filter(Boolean)
-    if (pathParts.length >= 2) {
-      const resource = pathParts[1] // "movie", "person", etc.
-      const action = pathParts[2] || 'details' // "credits", "similar", etc.
-      return `${resource}-${action}`
-    }
-    return 'unknown-operation'
-  }
-
-  /**
-   * Categorizes endpoint based on its functionality
-   *
-   * @param chunk - The API documentation chunk
-   * @returns The endpoint category
-   *
-   * @private
-   */
-  private categorizeEndpoint(chunk: Record<string, unknown>): string {
-    try {
-      const content = chunk.content as Array<Record<string, unknown>>
-      if (!content || !Array.isArray(content)) return 'unknown'
-
-      const textContent = content
-        .filter((c: Record<string, unknown>) => c.type === 'text')
-        .map((c: Record<string, unknown>) => c.text as string)
-        .join(' ')
-
-      // Categorize based on content patterns
-      if (textContent.includes('search') || textContent.includes('query')) {
-        return 'search'
-      }
-      if (
-        textContent.includes('details') ||
-        textContent.includes('information')
-      ) {
-        return 'details'
-      }
-      if (textContent.includes('credits') || textContent.includes('cast')) {
-        return 'credits'
-      }
-      if (
-        textContent.includes('similar') ||
-        textContent.includes('recommendations')
-      ) {
-        return 'similar'
-      }
-      if (textContent.includes('discover') || textContent.includes('filter')) {
-        return 'discover'
-      }
-      if (textContent.includes('genre') || textContent.includes('category')) {
-        return 'genre'
-      }
-
-      return 'other'
-    } catch (error) {
-      console.warn('Failed to categorize endpoint:', error)
-      return 'unknown'
-    }
-  }
 }
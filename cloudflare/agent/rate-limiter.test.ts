@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { AgentConfig } from './config'
+import { CancelledError, RateLimitError } from './error-handling'
+import { RateLimiter } from './rate-limiter'
+
+type Limits = AgentConfig['api']['rateLimit']
+
+const limits: Limits = {
+  enabled: true,
+  requestsPerSecond: 100,
+  burst: 2,
+  policy: 'wait',
+  maxWait: 1000,
+  overrides: {},
+}
+
+// A limiter whose clock only moves when the test moves it
+function limiter(config: Partial<Limits> = {}) {
+  const clock = { now: 0 }
+  return {
+    clock,
+    limiter: new RateLimiter({ ...limits, ...config }, () => clock.now),
+  }
+}
+
+const url = 'https://api.example.com/movies'
+
+describe('RateLimiter', () => {
+  it('lets a burst through, then waits for the next token', async () => {
+    const { limiter: bucket } = limiter()
+    const throttled: Array<[string, number]> = []
+
+    expect(await bucket.acquire('movies', url)).toBe(0)
+    expect(await bucket.acquire('movies', url)).toBe(0)
+    expect(
+      await bucket.acquire('movies', url, undefined, async (key, delay) => {
+        throttled.push([key, delay])
+      })
+    ).toBe(10)
+    expect(throttled).toEqual([['api.example.com', 10]])
+  })
+
+  it('refills tokens over time, up to the burst', async () => {
+    const { clock, limiter: bucket } = limiter({ policy: 'fail' })
+    await bucket.acquire('movies', url)
+    await bucket.acquire('movies', url)
+
+    clock.now += 10
+    expect(await bucket.acquire('movies', url)).toBe(0)
+    await expect(bucket.acquire('movies', url)).rejects.toBeInstanceOf(
+      RateLimitError
+    )
+
+    clock.now += 60_000
+    expect(await bucket.acquire('movies', url)).toBe(0)
+    expect(await bucket.acquire('movies', url)).toBe(0)
+    await expect(bucket.acquire('movies', url)).rejects.toBeInstanceOf(
+      RateLimitError
+    )
+  })
+
+  it('rejects calls over the limit under the fail policy', async () => {
+    const { limiter: bucket } = limiter({ policy: 'fail', burst: 1 })
+    await bucket.acquire('movies', url)
+
+    const error = await bucket.acquire('movies', url).catch((e) => e)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.message).toBe(
+      'Rate limit of 100 requests per second for api.example.com reached'
+    )
+    expect(error.details).toEqual({
+      key: 'api.example.com',
+      retryAfterMs: 10,
+      policy: 'fail',
+    })
+  })
+
+  it('rejects waits longer than maxWait', async () => {
+    const { limiter: bucket } = limiter({
+      requestsPerSecond: 1,
+      burst: 1,
+      maxWait: 500,
+    })
+    await bucket.acquire('movies', url)
+
+    await expect(bucket.acquire('movies', url)).rejects.toBeInstanceOf(
+      RateLimitError
+    )
+  })
+
+  it('keeps a bucket per host, and per spec with a spec override', async () => {
+    const { limiter: bucket } = limiter({
+      policy: 'fail',
+      burst: 1,
+      overrides: { billing: { requestsPerSecond: 100, burst: 1 } },
+    })
+
+    await bucket.acquire('movies', url)
+    await bucket.acquire('movies', 'https://other.example.com/')
+    await bucket.acquire('billing', url)
+    await expect(bucket.acquire('movies', url)).rejects.toBeInstanceOf(
+      RateLimitError
+    )
+    await expect(bucket.acquire('billing', url)).rejects.toThrow(
+      'for billing reached'
+    )
+  })
+
+  it('applies host overrides', async () => {
+    const { limiter: bucket } = limiter({
+      policy: 'fail',
+      burst: 1,
+      overrides: { 'api.example.com': { requestsPerSecond: 5, burst: 3 } },
+    })
+
+    for (let i = 0; i < 3; i++) {
+      expect(await bucket.acquire('movies', url)).toBe(0)
+    }
+    await expect(bucket.acquire('movies', url)).rejects.toThrow(
+      'Rate limit of 5 requests per second'
+    )
+  })
+
+  it('does nothing when disabled', async () => {
+    const { limiter: bucket } = limiter({ enabled: false, burst: 1 })
+
+    for (let i = 0; i < 5; i++) {
+      expect(await bucket.acquire('movies', url)).toBe(0)
+    }
+  })
+
+  it('hands the token back when a waiting call is cancelled', async () => {
+    const { clock, limiter: bucket } = limiter({ burst: 1 })
+    await bucket.acquire('movies', url)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      bucket.acquire('movies', url, controller.signal)
+    ).rejects.toBeInstanceOf(CancelledError)
+
+    // The cancelled call's token is free again once the bucket refills
+    clock.now += 10
+    expect(await bucket.acquire('movies', url)).toBe(0)
+  })
+})
@@ -0,0 +1,128 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import { RateLimitError, throwIfCancelled } from './error-handling'
+import { sleep } from './http-client'
+
+interface Bucket {
+  // May drop below zero: each waiting call has reserved a future token
+  tokens: number
+  updatedAt: number
+  requestsPerSecond: number
+  burst: number
+}
+
+/**
+ * Reports a call that has to wait for the rate limit
+ */
+export type ThrottleHandler = (key: string, delayMs: number) => Promise<void>
+
+/**
+ * Token-bucket rate limiter for upstream API calls
+ *
+ * Each upstream host has a bucket holding up to `burst` tokens that refills
+ * at `requestsPerSecond`; every attempt of a call, retries included, takes
+ * one token. Limits can be overridden per spec ID or per host
+ * (`AgentConfig.api.rateLimit.overrides`), and a spec ID override gives
+ * that spec its own bucket. When the bucket is empty, the `wait` policy
+ * reserves the next free token and waits for it, while the `fail` policy
+ * rejects the call. Calls that would wait longer than `maxWait` are
+ * rejected under either policy. Buckets live in memory, so they are
+ * shared by every run of this Durable Object.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter()
+ * await httpClient.send(request, signal, async () => {
+ *   await limiter.acquire('tmdb', request.url, signal)
+ * })
+ * ```
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>()
+
+  /**
+   * Creates a new rate limiter
+   *
+   * @param config - Limits and policy
+   * @param now - Clock in milliseconds
+   */
+  constructor(
+    private config: AgentConfig['api']['rateLimit'] = DEFAULT_CONFIG.api
+      .rateLimit,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Takes a token for a call, waiting for one if the policy allows
+   *
+   * @param specId - The API being called
+   * @param url - The request URL, whose host selects the bucket
+   * @param signal - Stops waiting when the run is cancelled
+   * @param onThrottle - Told how long the call will wait, before it waits
+   * @returns Promise containing how many milliseconds the call waited
+   * @throws {RateLimitError} When the call is over the limit and may not
+   * wait (long enough)
+   * @throws {CancelledError} When the signal is aborted while waiting
+   */
+  async acquire(
+    specId: string,
+    url: string,
+    signal?: AbortSignal,
+    onThrottle?: ThrottleHandler
+  ): Promise<number> {
+    if (!this.config.enabled) return 0
+
+    const key = this.config.overrides[specId] ? specId : new URL(url).host
+    const bucket = this.refill(key)
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return 0
+    }
+
+    const delay = Math.ceil(
+      ((1 - bucket.tokens) / bucket.requestsPerSecond) * 1000
+    )
+    if (this.config.policy === 'fail' || delay > this.config.maxWait) {
+      throw new RateLimitError(
+        `Rate limit of ${bucket.requestsPerSecond} requests per second for ${key} reached`,
+        { key, retryAfterMs: delay, policy: this.config.policy }
+      )
+    }
+
+    // Reserve the token now so concurrent calls queue up behind this one
+    bucket.tokens -= 1
+    console.log(`⏳ [RATE LIMIT] Waiting ${delay}ms for ${key}`)
+    try {
+      await onThrottle?.(key, delay)
+      throwIfCancelled(signal)
+      await sleep(delay, signal)
+    } catch (error) {
+      // Hand the reserved token back to the calls behind this one
+      bucket.tokens += 1
+      throw error
+    }
+    return delay
+  }
+
+  private refill(key: string): Bucket {
+    const now = this.now()
+    let bucket = this.buckets.get(key)
+    if (!bucket) {
+      const limits = this.config.overrides[key] ?? this.config
+      bucket = {
+        tokens: limits.burst,
+        updatedAt: now,
+        requestsPerSecond: limits.requestsPerSecond,
+        burst: limits.burst,
+      }
+      this.buckets.set(key, bucket)
+    }
+
+    const elapsed = (now - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(
+      bucket.burst,
+      bucket.tokens + elapsed * bucket.requestsPerSecond
+    )
+    bucket.updatedAt = now
+    return bucket
+  }
+}
@@ -0,0 +1,198 @@
+import { DEFAULT_CONFIG } from './config'
+import { LexicalIndex } from './lexical-index'
+import { OperationEntry } from './openapi-utils'
+
+export interface RankingExplanation {
+  vectorScore: number | null
+  lexicalScore: number
+  bm25: number
+  matchedTerms: string[]
+  adjustments: string[]
+  summary: string
+}
+
+export interface RerankCandidate {
+  operationId: string | null
+  entry?: OperationEntry
+  vectorScore?: number
+  chunk: Record<string, unknown>
+}
+
+export interface RankedResult extends Record<string, unknown> {
+  operation_id: string | null
+  method: string | null
+  path: string | null
+  category: string
+  endpoint_type: string
+  vector_score: number | null
+  lexical_score: number
+  relevance_score: number
+  explanation: RankingExplanation
+}
+
+// Queries mentioning one of these may legitimately target a write operation
+const WRITE_INTENT =
+  /\b(add|create|delete|remove|rate|rating|clear|mark|favou?rite|watchlist|update|post|submit)\b/i
+
+// Score multiplier for write operations when the query shows no write intent
+const WRITE_PENALTY = 0.5
+
+/**
+ * Derives an operation's category and endpoint type from the spec
+ *
+ * The category is the operation's first OpenAPI tag, falling back to the
+ * first resource segment of its path. The endpoint type comes from the HTTP
+ * method and path shape: `search`, `discover`, `details` (a GET ending in a
+ * path parameter), `related` (a GET below an item, such as its credits),
+ * `list`, or `create`/`update`/`delete` for writes.
+ *
+ * @param entry - The operation to categorize
+ * @returns The category and endpoint type
+ *
+ * @example
+ * ```typescript
+ * categorizeOperation(findOperation(spec, 'movie-details')!)
+ * // { category: 'movie', endpointType: 'details' }
+ * ```
+ */
+export function categorizeOperation(entry: OperationEntry): {
+  category: string
+  endpointType: string
+} {
+  const segments = entry.path.split('/').filter(Boolean)
+  const resources = segments.filter(
+    (segment) => !/^v?\d+$/.test(segment) && !segment.startsWith('{')
+  )
+  const category = entry.operation.tags?.[0] || resources[0] || 'other'
+
+  switch (entry.method) {
+    case 'post':
+      return { category, endpointType: 'create' }
+    case 'put':
+    case 'patch':
+      return { category, endpointType: 'update' }
+    case 'delete':
+      return { category, endpointType: 'delete' }
+  }
+
+  if (resources.includes('search')) return { category, endpointType: 'search' }
+  if (resources.includes('discover')) {
+    return { category, endpointType: 'discover' }
+  }
+  if (segments[segments.length - 1]?.startsWith('{')) {
+    return { category, endpointType: 'details' }
+  }
+  if (segments.some((segment) => segment.startsWith('{'))) {
+    return { category, endpointType: 'related' }
+  }
+  return { category, endpointType: 'list' }
+}
+
+/**
+ * Reranks RAG candidates with a calibrated, explainable score
+ *
+ * The relevance score combines the real vector similarity from AutoRAG with
+ * a lexical score (BM25 squashed into 0-1 so it is comparable across
+ * queries), using the weights in `AgentConfig.rag`. When the vector search
+ * did not run, the lexical score is used on its own. Write operations are
+ * penalised unless the query asks for a change. Every result carries an
+ * explanation of how its score was reached.
+ */
+export class Reranker {
+  /**
+   * Creates a new reranker
+   *
+   * @param index - The lexical index of the spec being searched
+   * @param config - The RAG configuration holding weights
+   */
+  constructor(
+    private index: LexicalIndex,
+    private config: typeof DEFAULT_CONFIG.rag = DEFAULT_CONFIG.rag
+  ) {}
+
+  /**
+   * Scores and orders candidates for a query
+   *
+   * @param query - The user's natural language query
+   * @param candidates - The candidates from vector and lexical search
+   * @param vectorSearchRan - Whether vector scores are available this query
+   * @returns The ranked results, best first
+   */
+  rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    vectorSearchRan: boolean
+  ): RankedResult[] {
+    const writeIntent = WRITE_INTENT.test(query)
+
+    return candidates
+      .map((candidate) => {
+        const match = candidate.operationId
+          ? this.index.scoreOperation(query, candidate.operationId)
+          : undefined
+        const bm25 = match?.score ?? 0
+        const lexicalScore = bm25 / (bm25 + this.config.lexicalSaturation)
+        const vectorScore = candidate.vectorScore ?? null
+
+        let score = vectorSearchRan
+          ? this.config.vectorWeight * (vectorScore ?? 0) +
+            this.config.lexicalWeight * lexicalScore
+          : lexicalScore
+        const parts = vectorSearchRan
+          ? [
+              `${this.config.vectorWeight}×vector ${round(vectorScore ?? 0)}`,
+              `${this.config.lexicalWeight}×lexical ${round(lexicalScore)}`,
+            ]
+          : [`lexical ${round(lexicalScore)}`]
+
+        const adjustments: string[] = []
+        const { category, endpointType } = candidate.entry
+          ? categorizeOperation(candidate.entry)
+          : { category: 'unknown', endpointType: 'unknown' }
+        if (
+          candidate.entry &&
+          candidate.entry.method !== 'get' &&
+          !writeIntent
+        ) {
+          score *= WRITE_PENALTY
+          adjustments.push(
+            `×${WRITE_PENALTY}: ${candidate.entry.method.toUpperCase()} operation but the query asks for no change`
+          )
+        }
+
+        const matchedTerms = match?.matchedTerms ?? []
+        const summary =
+          `${parts.join(' + ')}` +
+          (matchedTerms.length
+            ? ` (matched: ${matchedTerms.join(', ')})`
+            : '') +
+          (adjustments.length ? `, ${adjustments.join(', ')}` : '') +
+          ` = ${round(score)}`
+
+        return {
+          ...candidate.chunk,
+          operation_id: candidate.operationId,
+          method: candidate.entry?.method.toUpperCase() ?? null,
+          path: candidate.entry?.path ?? null,
+          category,
+          endpoint_type: endpointType,
+          vector_score: vectorScore,
+          lexical_score: round(lexicalScore),
+          relevance_score: round(score),
+          explanation: {
+            vectorScore,
+            lexicalScore: round(lexicalScore),
+            bm25: round(bm25),
+            matchedTerms,
+            adjustments,
+            summary,
+          },
+        }
+      })
+      .sort((a, b) => b.relevance_score - a.relevance_score)
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
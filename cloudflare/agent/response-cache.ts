@@ -0,0 +1,124 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import { DatabaseService } from './database-service'
+
+export interface CachedResponse {
+  status: number
+  body: unknown
+  cachedAt: number
+}
+
+/**
+ * Cache of upstream GET responses in the agent's SQLite storage
+ *
+ * Entries are keyed by API, operationId and the canonical form of the
+ * call's parameters, so `{ query: { page: 1, language: 'en' } }` and
+ * `{ query: { language: 'en', page: '1' } }` share an entry. Each
+ * operation has its own TTL (see `AgentConfig.cache`). Only GET calls are
+ * cached; callers must not pass anything else.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache(databaseService)
+ * const key = cache.key('tmdb', 'genre-movie-list', { query: { language: 'en' } })
+ * const hit = await cache.get(key)
+ * if (!hit) await cache.put(key, 'tmdb', 'genre-movie-list', 200, genres)
+ * ```
+ */
+export class ResponseCache {
+  /**
+   * Creates a new response cache
+   *
+   * @param databaseService - Service for data persistence
+   * @param config - TTL settings
+   */
+  constructor(
+    private databaseService: DatabaseService,
+    private config: AgentConfig['cache'] = DEFAULT_CONFIG.cache
+  ) {}
+
+  /**
+   * Builds the cache key for a call
+   *
+   * @param specId - The API being called
+   * @param operationId - The operation being called
+   * @param parameters - The call's parameters, nested by location
+   * @returns The cache key
+   */
+  key(specId: string, operationId: string, parameters: unknown): string {
+    return `${specId}:${operationId}:${JSON.stringify(canonicalize(parameters))}`
+  }
+
+  /**
+   * Whether responses of an operation are cached at all
+   *
+   * @param operationId - The operation to check
+   * @returns True if caching is enabled and the operation's TTL is positive
+   */
+  isCacheable(operationId: string): boolean {
+    return this.config.enabled && this.ttl(operationId) > 0
+  }
+
+  /**
+   * Looks up a fresh cached response
+   *
+   * @param key - The cache key from `key()`
+   * @returns Promise containing the response, or undefined on a miss
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const row = await this.databaseService.getCachedResponse(key, Date.now())
+    if (!row) return undefined
+    return {
+      status: row.status,
+      body: JSON.parse(row.body),
+      cachedAt: row.createdAt,
+    }
+  }
+
+  /**
+   * Stores a response for the operation's TTL
+   *
+   * @param key - The cache key from `key()`
+   * @param specId - The API that was called
+   * @param operationId - The operation that was called
+   * @param status - The response's HTTP status
+   * @param body - The parsed response body
+   */
+  async put(
+    key: string,
+    specId: string,
+    operationId: string,
+    status: number,
+    body: unknown
+  ) {
+    const now = Date.now()
+    await this.databaseService.putCachedResponse({
+      key,
+      specId,
+      operationId,
+      status,
+      body: JSON.stringify(body),
+      createdAt: now,
+      expiresAt: now + this.ttl(operationId),
+    })
+  }
+
+  private ttl(operationId: string): number {
+    return this.config.ttlByOperation[operationId] ?? this.config.defaultTtl
+  }
+}
+
+// Sorts object keys, drops empty values and stringifies scalars, since
+// parameters end up as strings in the URL anyway
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize)
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key]
+      if (item === undefined || item === null) continue
+      out[key] = canonicalize(item)
+    }
+    return out
+  }
+  return String(value)
+}
@@ -1,7 +1,13 @@
 import type { Message as VercelMessage } from 'ai'
-import { streamText } from 'ai'
-import { createWorkersAI } from 'workers-ai-provider'
-import { Env, ExecutionPlan } from './types'
+import { generateText, streamText } from 'ai'
+import { ModelOverrides, stageModel } from './config'
+import { LlmProvider } from './llm-provider'
+import { ShapedResults } from './result-shaping'
+import { Env, ExecutionPlan, StepFailure } from './types'
+
+// Longest part of a failed step's response body shown to the model
+const MAX_FAILURE_BODY_CHARS = 300
+const MAX_TITLE_CHARS = 100
 
 /**
  * Service for generating final AI responses
@@ -10,14 +16,17 @@ import { Env, ExecutionPlan } from './types'
  * natural language responses that are conversational and informative.
  */
 export class ResponseGenerationService {
-  private workersai = createWorkersAI({ binding: this.env.AI })
-
   /**
    * Creates a new response generation service instance
    *
    * @param env - The environment object containing AI bindings
+   * @param llmProvider - Resolves the models of the response and title
+   * stages
    */
-  constructor(private env: Env) {}
+  constructor(
+    private env: Env,
+    private llmProvider: LlmProvider = new LlmProvider(env)
+  ) {}
 
   /**
    * Generates a final response based on execution results
@@ -27,8 +36,13 @@ export class ResponseGenerationService {
    *
    * @param userQuery - The original user query
    * @param plan - The execution plan that was carried out
-   * @param executionResults - The results from API calls
+   * @param executionResults - The results from API calls, shaped by
+   * `shapeResults`
+   * @param failures - The steps that failed or were skipped
    * @param conversationHistory - Previous conversation messages for context
+   * @param apiNames - Names of the APIs the results came from
+   * @param signal - Stops the generation when aborted
+   * @param models - Per-request model overrides
    * @returns Promise containing a streaming text response
    *
    * @example
@@ -37,7 +51,8 @@ export class ResponseGenerationService {
    * const responseStream = await responseService.generateFinalResponse(
    *   "Find action movies from 2023",
    *   executionPlan,
-   *   executionResults,
+   *   shapeResults(executionResults.results, executionPlan),
+   *   Object.values(executionResults.failures),
    *   conversationHistory
    * )
    * ```
@@ -45,26 +60,94 @@ export class ResponseGenerationService {
   async generateFinalResponse(
     userQuery: string,
     plan: ExecutionPlan,
-    executionResults: Record<string, unknown>,
-    conversationHistory: VercelMessage[]
+    executionResults: ShapedResults,
+    failures: StepFailure[],
+    conversationHistory: VercelMessage[],
+    apiNames: string[] = ['TMDB API'],
+    signal?: AbortSignal,
+    models?: ModelOverrides
   ) {
+    const settings = stageModel('response', models)
     const systemPrompt = this.buildResponsePrompt(
       userQuery,
       plan,
-      executionResults
+      executionResults,
+      failures,
+      apiNames
     )
 
     return await streamText({
-      // @ts-expect-error - this is a valid model
-      model: this.workersai('@cf/meta/llama-3.1-8b-instruct-fast'),
+      model: this.llmProvider.languageModel(settings),
       messages: [
         { role: 'system', content: systemPrompt },
         ...conversationHistory,
         { role: 'user', content: userQuery },
       ],
+      temperature: settings.temperature,
+      maxTokens: settings.maxTokens,
+      maxRetries: settings.maxRetries,
+      abortSignal: signal,
     })
   }
 
+  /**
+   * Names a conversation thread after its first exchange
+   *
+   * Uses the `title` model stage when it is enabled. Otherwise, and when
+   * the model call fails, is aborted or returns nothing, the title is the
+   * start of the answer.
+   *
+   * @param userQuery - The first question of the thread
+   * @param response - The answer to it
+   * @param models - Per-request model overrides
+   * @param signal - Stops the model call when aborted
+   * @returns Promise containing a title of at most 100 characters
+   *
+   * @example
+   * ```typescript
+   * const title = await responseService.generateTitle(
+   *   'Who directed Alien?',
+   *   'Alien (1979) was directed by Ridley Scott...'
+   * )
+   * // 'Director of Alien'
+   * ```
+   */
+  async generateTitle(
+    userQuery: string,
+    response: string,
+    models?: ModelOverrides,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const settings = stageModel('title', models)
+    const fallback =
+      response.slice(0, MAX_TITLE_CHARS) +
+      (response.length > MAX_TITLE_CHARS ? '...' : '')
+    if (!settings.enabled) return fallback
+
+    try {
+      const { text } = await generateText({
+        model: this.llmProvider.languageModel(settings),
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        maxRetries: settings.maxRetries,
+        abortSignal: signal,
+        prompt: `Write a title of at most six words for a conversation that starts with this question. Reply with the title only.
+
+Question: ${userQuery}
+Answer: ${response.slice(0, 500)}`,
+      })
+      const title = text
+        .trim()
+        .split('\n')[0]
+        .replace(/^["']|["']$/g, '')
+        .slice(0, MAX_TITLE_CHARS)
+      return title || fallback
+    } catch (error) {
+      console.warn('⚠️ [RESPONSE] Title generation failed:', error)
+      return fallback
+    }
+  }
+
   /**
    * Builds the system prompt for response generation
    *
@@ -73,7 +156,9 @@ export class ResponseGenerationService {
    *
    * @param userQuery - The original user query
    * @param plan - The execution plan that was carried out
-   * @param executionResults - The results from API calls
+   * @param executionResults - The shaped results from API calls
+   * @param failures - The steps that failed or were skipped
+   * @param apiNames - Names of the APIs the results came from
    * @returns The formatted system prompt
    *
    * @private
@@ -81,9 +166,20 @@ export class ResponseGenerationService {
   private buildResponsePrompt(
     userQuery: string,
     plan: ExecutionPlan,
-    executionResults: Record<string, unknown>
+    executionResults: ShapedResults,
+    failures: StepFailure[],
+    apiNames: string[]
   ): string {
-    return `You are a helpful AI assistant that provides comprehensive, conversational responses based on executed API calls to the TMDB API. Your tone should be informative, friendly, and direct.
+    const failed = failures.length
+      ? failures.map((failure) => this.describeFailure(failure)).join('\n')
+      : 'None.'
+    const omitted = executionResults.omitted.length
+      ? executionResults.omitted.map((line) => `- ${line}`).join('\n')
+      : 'Nothing.'
+
+    return `You are a helpful AI assistant that provides comprehensive, conversational responses based on executed API calls to the ${apiNames.join(
+      ', '
+    )}. Your tone should be informative, friendly, and direct.
 
 ### User Query
 "${userQuery}"
@@ -92,14 +188,22 @@ export class ResponseGenerationService {
 ${JSON.stringify(plan, null, 2)}
 
 ### API Results
-${JSON.stringify(executionResults, null, 2)}
+${JSON.stringify(executionResults.results, null, 2)}
+
+### Omitted From the Results
+${omitted}
+
+### Failed Steps
+${failed}
 
 ### Important Instructions
-1.  **Directly answer the user's question.** Do not apologize or say you couldn't find information.
+1.  **Directly answer the user's question.** Do not apologize or say you couldn't find information when the results contain it.
 2.  **Use the data from the API results to form your answer.** Extract specific details like movie titles, ratings, release dates, and cast members.
 3.  **If the API returns empty results, state that no results were found for the specific query.** Do not invent information. For example, if no Marvel movies are found after 2010, say so directly.
 4.  **Present data clearly.** Use lists, bullet points, or tables for readability.
 5.  **Be conversational and engaging, but get straight to the point.**
+6.  **If some steps failed (see "Failed Steps"), give a partial answer from the results that were fetched and say exactly which part could not be fetched and why** (e.g. "I couldn't get the cast of Up: the API returned 404 Not Found"). Never fill the gap with guesses.
+7.  **Some data may have been omitted to fit (see above).** If the answer depends on omitted data, say the list was shortened instead of guessing the rest.
 
 ### Example Good Response (with data)
 "Based on the data, here are the top-rated science fiction movies from 2023:
@@ -112,4 +216,27 @@ ${JSON.stringify(executionResults, null, 2)}
 Now, provide a comprehensive and engaging response based on the API results above.
 `
   }
+
+  /**
+   * Summarizes a failed step for the prompt
+   *
+   * @param failure - The failed or skipped step
+   * @returns One list item with the error, status and start of the body
+   *
+   * @private
+   */
+  private describeFailure(failure: StepFailure): string {
+    const parts = [
+      `- ${failure.stepId} (${failure.tool}: ${failure.description}): ${failure.error}`,
+    ]
+    if (failure.status !== undefined) parts.push(`HTTP ${failure.status}`)
+    if (failure.body !== undefined) {
+      const body =
+        typeof failure.body === 'string'
+          ? failure.body
+          : JSON.stringify(failure.body)
+      parts.push(`response: ${body.slice(0, MAX_FAILURE_BODY_CHARS)}`)
+    }
+    return parts.join('; ')
+  }
 }
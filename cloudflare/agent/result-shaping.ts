@@ -0,0 +1,205 @@
+import { AgentConfig, DEFAULT_CONFIG } from './config'
+import { estimateTokens } from './operation-docs'
+import { ExecutionPlan, ExecutionStep } from './types'
+
+export interface ShapedResults {
+  // Results keyed by step ID, reduced to fit the token budget
+  results: Record<string, unknown>
+  tokens: number
+  // One human-readable line per kind of data left out
+  omitted: string[]
+}
+
+interface Limits {
+  arrayItems: number
+  stringChars: number
+}
+
+// Progressively tighter limits, tried in order until the results fit
+const STRING_LIMITS = [Infinity, 500, 200, 80]
+const ARRAY_LIMITS = [Infinity, 10, 5, 2]
+
+// Records what shaping left out, merged per step and field path
+class Omissions {
+  private dropped = new Map<string, Set<string>>()
+  private arrays = new Map<string, { kept: number; total: number }>()
+  private strings = new Map<string, number>()
+  private selected = new Map<string, string[]>()
+  private steps: string[] = []
+
+  dropField(stepId: string, field: string) {
+    const fields = this.dropped.get(stepId) ?? new Set<string>()
+    fields.add(field)
+    this.dropped.set(stepId, fields)
+  }
+
+  truncateArray(path: string, kept: number, total: number) {
+    const previous = this.arrays.get(path)
+    this.arrays.set(path, {
+      kept,
+      total: Math.max(total, previous?.total ?? 0),
+    })
+  }
+
+  truncateString(path: string, chars: number) {
+    this.strings.set(path, chars)
+  }
+
+  select(stepId: string, fields: string[]) {
+    this.selected.set(stepId, fields)
+  }
+
+  dropStep(stepId: string) {
+    this.steps.push(stepId)
+  }
+
+  describe(): string[] {
+    return [
+      ...[...this.selected].map(
+        ([stepId, fields]) =>
+          `${stepId}: only the selected fields kept (${fields.join(', ')})`
+      ),
+      ...[...this.dropped].map(
+        ([stepId, fields]) => `${stepId}: dropped ${[...fields].join(', ')}`
+      ),
+      ...[...this.arrays].map(
+        ([path, { kept, total }]) => `${path}: kept ${kept} of ${total} items`
+      ),
+      ...[...this.strings].map(
+        ([path, chars]) => `${path}: cut to ${chars} characters`
+      ),
+      ...this.steps.map(
+        (stepId) => `${stepId}: left out entirely to fit the token budget`
+      ),
+    ]
+  }
+}
+
+/**
+ * Reduces execution results to what the response model needs
+ *
+ * Steps with a `select` list keep only those fields (dot paths; arrays are
+ * walked through, so `results.title` keeps the title of every result).
+ * Other steps lose the fields on the configured denylist. Arrays are then
+ * cut to `maxArrayItems`, and if the results still exceed the token budget
+ * arrays and long strings are cut further, and finally the largest steps
+ * are left out. Everything removed is reported in `omitted`.
+ *
+ * @param results - Execution results keyed by step ID
+ * @param plan - The plan that produced them
+ * @param config - Budget, array limit and denylist
+ * @returns The shaped results, their estimated size and what was omitted
+ *
+ * @example
+ * ```typescript
+ * const shaped = shapeResults(executionResults.results, plan)
+ * // shaped.omitted: ['step2.cast: kept 20 of 84 items', 'step1: dropped poster_path']
+ * ```
+ */
+export function shapeResults(
+  results: Record<string, unknown>,
+  plan: ExecutionPlan,
+  config: AgentConfig['shaping'] = DEFAULT_CONFIG.shaping
+): ShapedResults {
+  const steps = new Map(plan.steps.map((step) => [step.id, step]))
+  let shaped: Record<string, unknown> = {}
+  let omissions = new Omissions()
+  let tokens = 0
+
+  for (let level = 0; level < STRING_LIMITS.length; level++) {
+    const limits: Limits = {
+      arrayItems: Math.min(config.maxArrayItems, ARRAY_LIMITS[level]),
+      stringChars: STRING_LIMITS[level],
+    }
+    omissions = new Omissions()
+    shaped = {}
+    for (const [stepId, value] of Object.entries(results)) {
+      shaped[stepId] = shapeStep(
+        stepId,
+        value,
+        steps.get(stepId),
+        limits,
+        new Set(config.denylist),
+        omissions
+      )
+    }
+    tokens = estimateTokens(JSON.stringify(shaped))
+    if (tokens <= config.tokenBudget) break
+  }
+
+  while (tokens > config.tokenBudget && Object.keys(shaped).length > 0) {
+    const [largest] = Object.keys(shaped).sort(
+      (a, b) =>
+        JSON.stringify(shaped[b]).length - JSON.stringify(shaped[a]).length
+    )
+    delete shaped[largest]
+    omissions.dropStep(largest)
+    tokens = estimateTokens(JSON.stringify(shaped))
+  }
+
+  return { results: shaped, tokens, omitted: omissions.describe() }
+}
+
+function shapeStep(
+  stepId: string,
+  value: unknown,
+  step: ExecutionStep | undefined,
+  limits: Limits,
+  denylist: Set<string>,
+  omissions: Omissions
+): unknown {
+  const select = step?.select?.filter(Boolean)
+  if (select?.length) {
+    omissions.select(stepId, select)
+    value = project(
+      value,
+      select.map((field) => field.split('.'))
+    )
+  }
+
+  const walk = (node: unknown, path: string): unknown => {
+    if (Array.isArray(node)) {
+      if (node.length > limits.arrayItems) {
+        omissions.truncateArray(path, limits.arrayItems, node.length)
+      }
+      return node
+        .slice(0, limits.arrayItems)
+        .map((item) => walk(item, `${path}[]`))
+    }
+    if (node && typeof node === 'object') {
+      const out: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(node)) {
+        // Selected fields are kept even if they are on the denylist
+        if (!select?.length && denylist.has(key)) {
+          omissions.dropField(stepId, key)
+          continue
+        }
+        out[key] = walk(child, `${path}.${key}`)
+      }
+      return out
+    }
+    if (typeof node === 'string' && node.length > limits.stringChars) {
+      omissions.truncateString(path, limits.stringChars)
+      return node.slice(0, limits.stringChars) + '…'
+    }
+    return node
+  }
+
+  return walk(value, stepId)
+}
+
+// Keeps only the given field paths, walking through arrays
+function project(value: unknown, paths: string[][]): unknown {
+  if (Array.isArray(value)) return value.map((item) => project(item, paths))
+  if (!value || typeof value !== 'object') return value
+  if (paths.some((path) => path.length === 0)) return value
+
+  const out: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const rest = paths
+      .filter((path) => path[0] === key)
+      .map((path) => path.slice(1))
+    if (rest.length > 0) out[key] = project(child, rest)
+  }
+  return out
+}
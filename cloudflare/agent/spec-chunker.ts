@@ -0,0 +1,184 @@
+import { DEFAULT_CONFIG } from './config'
+import {
+  flattenSchemaFields,
+  listOperations,
+  OperationEntry,
+  resolveRefs,
+  successResponseSchema,
+  summarizeParameters,
+} from './openapi-utils'
+import { OpenAPISpec } from './types'
+
+export interface SpecChunk {
+  id: string
+  specId: string
+  operationId: string
+  method: string
+  path: string
+  part: number
+  totalParts: number
+  text: string
+  hash: string
+}
+
+/**
+ * Splits an OpenAPI document into size-bounded, per-operation chunks
+ *
+ * Every chunk starts with the operation's summary header (operationId,
+ * method, path and description), followed by as many parameter, request
+ * body and response field lines as fit. Operations too large for a single
+ * chunk are split into numbered parts that each repeat the header, so any
+ * part retrieved on its own still identifies the operation.
+ *
+ * Chunk IDs are stable across runs and each chunk carries a content hash,
+ * which lets the ingestion pipeline only rewrite chunks that changed.
+ *
+ * @param specId - The ID of the spec being chunked
+ * @param spec - The OpenAPI document
+ * @param maxChars - The maximum size of a chunk in characters
+ * @returns Promise containing the chunks in document order
+ *
+ * @example
+ * ```typescript
+ * const chunks = await chunkSpec('tmdb', tmdbOpenApi)
+ * // chunks[0].id === 'tmdb/account-details#0'
+ * ```
+ */
+export async function chunkSpec(
+  specId: string,
+  spec: OpenAPISpec,
+  maxChars: number = DEFAULT_CONFIG.rag.maxChunkChars
+): Promise<SpecChunk[]> {
+  const chunks: SpecChunk[] = []
+
+  for (const entry of listOperations(spec)) {
+    const header = buildHeader(entry)
+    const parts = packLines(header, buildBodyLines(spec, entry), maxChars)
+
+    for (let part = 0; part < parts.length; part++) {
+      chunks.push({
+        id: `${specId}/${entry.operationId}#${part}`,
+        specId,
+        operationId: entry.operationId,
+        method: entry.method.toUpperCase(),
+        path: entry.path,
+        part,
+        totalParts: parts.length,
+        text: parts[part],
+        hash: await sha256(parts[part]),
+      })
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Renders the documentation text of a single operation
+ *
+ * Produces the same text as the first chunk of the operation, for callers
+ * that need an operation's docs without going through the vector store.
+ *
+ * @param spec - The OpenAPI document
+ * @param entry - The operation to render
+ * @param maxChars - The maximum size of the text in characters
+ * @returns The operation's documentation text
+ */
+export function renderOperationText(
+  spec: OpenAPISpec,
+  entry: OperationEntry,
+  maxChars: number = DEFAULT_CONFIG.rag.maxChunkChars
+): string {
+  return packLines(buildHeader(entry), buildBodyLines(spec, entry), maxChars)[0]
+}
+
+function buildHeader(entry: OperationEntry): string[] {
+  const { operation } = entry
+  const lines = [
+    `operationId: ${entry.operationId}`,
+    `${entry.method.toUpperCase()} ${entry.path}`,
+  ]
+  const summary = [operation.summary, operation.description]
+    .filter((s): s is string => typeof s === 'string' && s.trim() !== '')
+    .join(' - ')
+  if (summary) lines.push(`Summary: ${summary}`)
+  if (operation.tags?.length) lines.push(`Tags: ${operation.tags.join(', ')}`)
+  return lines
+}
+
+function buildBodyLines(spec: OpenAPISpec, entry: OperationEntry): string[] {
+  const lines: string[] = []
+
+  const parameters = summarizeParameters(spec, entry)
+  if (parameters.length > 0) {
+    lines.push('Parameters:')
+    for (const param of parameters) {
+      const flags = [param.in, param.type, param.required ? 'required' : '']
+        .filter(Boolean)
+        .join(', ')
+      const enumText = param.enum ? ` one of ${param.enum.join('|')}` : ''
+      const description = param.description ? `: ${param.description}` : ''
+      lines.push(`- ${param.name} (${flags})${enumText}${description}`)
+    }
+  }
+
+  const requestBody = resolveRefs(entry.operation.requestBody, spec) as
+    { content?: Record<string, { schema?: unknown }> } | undefined
+  const bodyFields = flattenSchemaFields(
+    requestBody?.content?.['application/json']?.schema
+  )
+  if (bodyFields.length > 0) {
+    lines.push('Request body:')
+    lines.push(...bodyFields.map((f) => `- ${f.path} (${f.type})`))
+  }
+
+  const responseFields = flattenSchemaFields(successResponseSchema(spec, entry))
+  if (responseFields.length > 0) {
+    lines.push('Response fields:')
+    lines.push(...responseFields.map((f) => `- ${f.path} (${f.type})`))
+  }
+
+  return lines
+}
+
+// Greedily packs lines into chunks that each start with the header
+function packLines(header: string[], lines: string[], maxChars: number) {
+  // Keep room for body lines even when a description is very long
+  const fullHeader = header.join('\n')
+  const maxHeader = Math.floor(maxChars / 2)
+  const headerText =
+    fullHeader.length > maxHeader
+      ? fullHeader.slice(0, maxHeader - 3) + '...'
+      : fullHeader
+  const budget = Math.max(maxChars - headerText.length - 1, 80)
+  const parts: string[] = []
+  let current: string[] = []
+  let size = 0
+
+  for (const rawLine of lines) {
+    const line =
+      rawLine.length > budget ? rawLine.slice(0, budget - 3) + '...' : rawLine
+    if (current.length > 0 && size + line.length + 1 > budget) {
+      parts.push([headerText, ...current].join('\n'))
+      current = []
+      size = 0
+    }
+    current.push(line)
+    size += line.length + 1
+  }
+
+  if (current.length > 0 || parts.length === 0) {
+    parts.push([headerText, ...current].join('\n'))
+  }
+  return parts
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  )
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,90 @@
+import { ValidationError } from './error-handling'
+import { chunkSpec } from './spec-chunker'
+import { SpecRegistry } from './spec-registry'
+import { VectorStore } from './vector-store'
+
+export interface IngestionReport {
+  specId: string
+  store: string
+  totalChunks: number
+  added: number
+  updated: number
+  removed: number
+  unchanged: number
+}
+
+/**
+ * Service for indexing OpenAPI specs into the RAG store
+ *
+ * This service chunks a spec, compares the chunks against the store's
+ * manifest of what was previously written, and only writes or deletes the
+ * chunks that differ. The manifest lives with the (shared) store, so
+ * re-running it after a spec update, from any session, is cheap.
+ */
+export class SpecIngestionService {
+  /**
+   * Creates a new spec ingestion service instance
+   *
+   * @param specRegistry - Registry of the APIs the agent can target
+   * @param vectorStore - The default store chunks are written to
+   */
+  constructor(
+    private specRegistry: SpecRegistry,
+    private vectorStore?: VectorStore
+  ) {}
+
+  /**
+   * Chunks a spec and synchronises the vector store with the result
+   *
+   * @param specId - The ID of the spec to index
+   * @param options - Set `force` to rewrite every chunk regardless of hash
+   * @returns Promise containing counts of what changed
+   *
+   * @example
+   * ```typescript
+   * const ingestion = new SpecIngestionService(registry, createVectorStore(env))
+   * const report = await ingestion.ingest('tmdb')
+   * // { added: 0, updated: 2, removed: 1, unchanged: 147, ... }
+   * ```
+   */
+  async ingest(
+    specId: string,
+    options: { force?: boolean; store?: VectorStore } = {}
+  ): Promise<IngestionReport> {
+    const store = options.store ?? this.vectorStore
+    if (!store) {
+      throw new ValidationError(
+        'No vector store configured; bind RAG_VECTORIZE or RAG_BUCKET'
+      )
+    }
+
+    const spec = await this.specRegistry.loadSpec(specId)
+    const chunks = await chunkSpec(specId, spec)
+
+    const manifest = await store.manifest(specId)
+
+    const changed = chunks.filter(
+      (chunk) => options.force || manifest.get(chunk.id) !== chunk.hash
+    )
+    const currentIds = new Set(chunks.map((chunk) => chunk.id))
+    const removed = [...manifest.keys()].filter((id) => !currentIds.has(id))
+
+    console.log(
+      `📥 [INGEST] ${specId}: ${chunks.length} chunks, ${changed.length} to write, ${removed.length} to remove`
+    )
+
+    await store.upsert(changed)
+    await store.delete(removed)
+
+    const added = changed.filter((chunk) => !manifest.has(chunk.id)).length
+    return {
+      specId,
+      store: store.name,
+      totalChunks: chunks.length,
+      added,
+      updated: changed.length - added,
+      removed: removed.length,
+      unchanged: chunks.length - changed.length,
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { DatabaseService } from './database-service'
+import {
+  AgentError,
+  createErrorResponse,
+  handleError,
+  ValidationError,
+} from './error-handling'
+import { listOperations } from './openapi-utils'
+import { SpecIngestionService } from './spec-ingestion-service'
+import { SpecRegistry } from './spec-registry'
+import { ToolExecutionService } from './tool-execution-service'
+import { ApiSpecDefinition, OpenAPISpec, SpecRow } from './types'
+import { RequestValidator } from './validation'
+
+/**
+ * Service for managing OpenAPI specs at runtime
+ *
+ * This service backs the `/api/specs` routes. Uploaded specs are validated,
+ * stored in the Durable Object's SQLite and registered with the spec
+ * registry, so new APIs can be onboarded without a redeploy.
+ */
+export class SpecManagementService {
+  /**
+   * Creates a new spec management service instance
+   *
+   * @param databaseService - Service for data persistence
+   * @param specRegistry - Registry of the APIs the agent can target
+   * @param toolExecutionService - Service that builds tools from specs
+   * @param specIngestionService - Service that indexes specs into the RAG store
+   */
+  constructor(
+    private databaseService: DatabaseService,
+    private specRegistry: SpecRegistry,
+    private toolExecutionService: ToolExecutionService,
+    private specIngestionService: SpecIngestionService
+  ) {}
+
+  /**
+   * Registers every stored spec with the spec registry
+   *
+   * Called on agent start so uploads survive Durable Object restarts.
+   */
+  async loadStoredSpecs() {
+    for (const row of await this.databaseService.listSpecs()) {
+      this.specRegistry.register(this.toDefinition(row))
+    }
+  }
+
+  /**
+   * Handles a request to the spec management routes
+   *
+   * Supported routes:
+   * - `GET /api/specs` lists all registered specs
+   * - `POST /api/specs` validates and stores a spec
+   * - `GET /api/specs/:id` returns a spec's metadata and operations
+   * - `GET /api/specs/:id/operations` lists a spec's operations
+   * - `POST /api/specs/:id/index` (re)indexes a spec into the RAG store
+   * - `DELETE /api/specs/:id` removes a stored spec
+   *
+   * @param request - The incoming HTTP request
+   * @returns Promise containing the JSON response
+   *
+   * @example
+   * ```typescript
+   * // curl -X POST /api/specs -d '{"id":"petstore","baseUrl":"https://petstore.example","spec":{...}}'
+   * const response = await specManagementService.handleRequest(request)
+   * ```
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    try {
+      const segments = new URL(request.url).pathname
+        .replace(/^\/api\/specs\/?/, '')
+        .split('/')
+        .filter(Boolean)
+        .map(decodeURIComponent)
+      const [id, subresource] = segments
+
+      if (!id) {
+        if (request.method === 'GET') return this.json(await this.listSpecs())
+        if (request.method === 'POST') return await this.uploadSpec(request)
+      } else if (!subresource) {
+        if (request.method === 'GET') return this.json(await this.describe(id))
+        if (request.method === 'DELETE') return await this.deleteSpec(id)
+      } else if (subresource === 'operations' && request.method === 'GET') {
+        return this.json({
+          id,
+          operations: (await this.describe(id)).operations,
+        })
+      } else if (subresource === 'index' && request.method === 'POST') {
+        return await this.indexSpec(id, request)
+      }
+
+      return new Response('Method Not Allowed', { status: 405 })
+    } catch (error) {
+      console.error('❌ [SPECS] Request failed:', error)
+      return createErrorResponse(handleError(error))
+    }
+  }
+
+  private async listSpecs() {
+    const specs = await Promise.all(
+      this.specRegistry.list().map(async (definition) => ({
+        ...this.describeDefinition(definition),
+        operationCount: listOperations(
+          await this.specRegistry.loadSpec(definition.id)
+        ).length,
+      }))
+    )
+    return { specs }
+  }
+
+  private async describe(id: string) {
+    const definition = this.specRegistry.get(id)
+    if (!definition) {
+      throw new AgentError(`Spec not found: ${id}`, 'NOT_FOUND', 404)
+    }
+    const spec = await this.specRegistry.loadSpec(id)
+    return {
+      ...this.describeDefinition(definition),
+      operations: listOperations(spec).map(
+        ({ operationId, method, path, summary, tags }) => ({
+          operationId,
+          method: method.toUpperCase(),
+          path,
+          summary,
+          tags,
+        })
+      ),
+    }
+  }
+
+  private async uploadSpec(request: Request): Promise<Response> {
+    let body: Record<string, unknown>
+    try {
+      body = await request.json()
+    } catch {
+      throw new ValidationError('Request body must be JSON')
+    }
+
+    const upload = RequestValidator.validateSpecUpload(body)
+    const existing = this.specRegistry.get(upload.id)
+    if (existing && existing.source !== 'stored') {
+      throw new ValidationError(
+        `Spec ${upload.id} is ${existing.source}-defined and cannot be replaced`
+      )
+    }
+
+    const row: SpecRow = {
+      id: upload.id,
+      name: upload.name,
+      baseUrl: upload.baseUrl,
+      auth: JSON.stringify(upload.auth),
+      foundationalTools: JSON.stringify(upload.foundationalTools),
+      ragIndexName: upload.ragIndexName ?? null,
+      document: JSON.stringify(upload.document),
+      updatedAt: Date.now(),
+    }
+    await this.databaseService.upsertSpec(row)
+
+    this.specRegistry.register(this.toDefinition(row))
+    this.toolExecutionService.invalidate(upload.id)
+    await this.toolExecutionService.initialize([upload.id])
+
+    console.log('✅ [SPECS] Stored spec', upload.id)
+    return this.json(await this.describe(upload.id), existing ? 200 : 201)
+  }
+
+  private async indexSpec(id: string, request: Request): Promise<Response> {
+    if (!this.specRegistry.has(id)) {
+      throw new AgentError(`Spec not found: ${id}`, 'NOT_FOUND', 404)
+    }
+    const force = new URL(request.url).searchParams.get('force') === 'true'
+    return this.json(await this.specIngestionService.ingest(id, { force }))
+  }
+
+  private async deleteSpec(id: string): Promise<Response> {
+    const definition = this.specRegistry.get(id)
+    if (!definition) {
+      throw new AgentError(`Spec not found: ${id}`, 'NOT_FOUND', 404)
+    }
+    if (definition.source !== 'stored') {
+      throw new ValidationError(
+        `Spec ${id} is ${definition.source}-defined and cannot be deleted`
+      )
+    }
+
+    await this.databaseService.deleteSpec(id)
+    this.specRegistry.unregister(id)
+    this.toolExecutionService.invalidate(id)
+
+    console.log('🗑️ [SPECS] Deleted spec', id)
+    return new Response(null, { status: 204 })
+  }
+
+  private toDefinition(row: SpecRow): ApiSpecDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      source: 'stored',
+      baseUrl: row.baseUrl,
+      auth: JSON.parse(row.auth),
+      foundationalTools: JSON.parse(row.foundationalTools),
+      ragIndexName: row.ragIndexName ?? undefined,
+      loadSpec: async () => JSON.parse(row.document) as OpenAPISpec,
+    }
+  }
+
+  private describeDefinition(definition: ApiSpecDefinition) {
+    return {
+      id: definition.id,
+      name: definition.name,
+      source: definition.source,
+      baseUrl: definition.baseUrl,
+      authType: definition.auth.type,
+      foundationalTools: definition.foundationalTools,
+      ragIndexName: definition.ragIndexName,
+    }
+  }
+
+  private json(data: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
@@ -0,0 +1,260 @@
+import { DEFAULT_CONFIG } from './config'
+import { ValidationError } from './error-handling'
+import { ApiAuthConfig, ApiSpecDefinition, Env, OpenAPISpec } from './types'
+
+/**
+ * APIs that ship with the agent
+ *
+ * TMDB is the reference API used by the demo. Its spec paths already
+ * carry the `/3` version prefix, so the base URL is the bare host.
+ */
+export const BUILTIN_SPECS: ApiSpecDefinition[] = [
+  {
+    id: 'tmdb',
+    name: 'TMDB API',
+    source: 'builtin',
+    baseUrl: 'https://api.themoviedb.org',
+    auth: { type: 'bearer', tokenEnv: 'TMDB_API_TOKEN' },
+    foundationalTools: [
+      'search-multi',
+      'search-company',
+      'search-person',
+      'search-movie',
+      'search-tv',
+      'discover-movie',
+      'movie-credits',
+    ],
+    ragIndexName: DEFAULT_CONFIG.rag.indexName,
+    loadSpec: async () => {
+      const tmdbOpenApi = await import('../../lib/tmdb-open-api.json')
+      return tmdbOpenApi.default as unknown as OpenAPISpec
+    },
+  },
+]
+
+// Shape of an entry in the ORCHESTRAPI_SPECS environment variable
+interface ExternalSpecEntry {
+  id: string
+  name?: string
+  specUrl: string
+  baseUrl: string
+  auth?: ApiAuthConfig
+  foundationalTools?: string[]
+  ragIndexName?: string
+}
+
+/**
+ * Registry of the OpenAPI specs the agent can target
+ *
+ * Each entry carries its own base URL, authentication scheme and list of
+ * foundational tools. Specs are loaded lazily and cached for the lifetime
+ * of the registry, so large documents are only parsed once.
+ */
+export class SpecRegistry {
+  private definitions = new Map<string, ApiSpecDefinition>()
+  private loadedSpecs = new Map<string, Promise<OpenAPISpec>>()
+
+  /**
+   * Creates a new spec registry
+   *
+   * @param definitions - The spec definitions to register initially
+   */
+  constructor(definitions: ApiSpecDefinition[] = BUILTIN_SPECS) {
+    for (const definition of definitions) {
+      this.register(definition)
+    }
+  }
+
+  /**
+   * Creates a registry with the built-in specs plus any declared in the
+   * `ORCHESTRAPI_SPECS` environment variable
+   *
+   * @param env - The environment object
+   * @returns A populated spec registry
+   *
+   * @example
+   * ```typescript
+   * // ORCHESTRAPI_SPECS='[{"id":"billing","specUrl":"https://internal/openapi.json",
+   * //   "baseUrl":"https://billing.internal","auth":{"type":"bearer","tokenEnv":"BILLING_TOKEN"}}]'
+   * const registry = SpecRegistry.fromEnv(env)
+   * ```
+   */
+  static fromEnv(env: Env): SpecRegistry {
+    const registry = new SpecRegistry()
+    if (!env.ORCHESTRAPI_SPECS) return registry
+
+    let entries: ExternalSpecEntry[]
+    try {
+      entries = JSON.parse(env.ORCHESTRAPI_SPECS)
+    } catch (error) {
+      console.error('❌ [SPECS] ORCHESTRAPI_SPECS is not valid JSON:', error)
+      return registry
+    }
+
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      if (!entry?.id || !entry.specUrl || !entry.baseUrl) {
+        console.warn('⚠️ [SPECS] Skipping incomplete spec entry:', entry)
+        continue
+      }
+      registry.register({
+        id: entry.id,
+        name: entry.name || entry.id,
+        source: 'env',
+        baseUrl: entry.baseUrl,
+        auth: entry.auth || { type: 'none' },
+        foundationalTools: entry.foundationalTools || [],
+        ragIndexName: entry.ragIndexName,
+        loadSpec: async () => {
+          const response = await fetch(entry.specUrl)
+          if (!response.ok) {
+            throw new Error(
+              `Failed to fetch spec ${entry.id}: ${response.status} ${response.statusText}`
+            )
+          }
+          return (await response.json()) as OpenAPISpec
+        },
+      })
+    }
+
+    return registry
+  }
+
+  /**
+   * Adds or replaces a spec definition
+   *
+   * @param definition - The spec definition to register
+   */
+  register(definition: ApiSpecDefinition) {
+    this.definitions.set(definition.id, definition)
+    this.loadedSpecs.delete(definition.id)
+  }
+
+  /**
+   * Removes a spec definition
+   *
+   * @param id - The spec ID to remove
+   * @returns True if a spec was removed
+   */
+  unregister(id: string): boolean {
+    this.loadedSpecs.delete(id)
+    return this.definitions.delete(id)
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id)
+  }
+
+  get(id: string): ApiSpecDefinition | undefined {
+    return this.definitions.get(id)
+  }
+
+  list(): ApiSpecDefinition[] {
+    return [...this.definitions.values()]
+  }
+
+  /**
+   * Loads the OpenAPI document for a spec, caching the result
+   *
+   * @param id - The spec ID to load
+   * @returns Promise containing the parsed OpenAPI document
+   */
+  async loadSpec(id: string): Promise<OpenAPISpec> {
+    const definition = this.definitions.get(id)
+    if (!definition) {
+      throw new ValidationError(`Unknown API: ${id}`, { apiId: id })
+    }
+
+    let spec = this.loadedSpecs.get(id)
+    if (!spec) {
+      spec = definition.loadSpec()
+      this.loadedSpecs.set(id, spec)
+      // Don't cache failures, so a transient fetch error can be retried
+      spec.catch(() => this.loadedSpecs.delete(id))
+    }
+    return spec
+  }
+
+  /**
+   * Resolves the APIs a request should target
+   *
+   * Falls back to the configured default APIs when nothing is requested.
+   *
+   * @param requestedIds - The API IDs requested by the thread or request
+   * @returns The matching spec definitions
+   * @throws ValidationError if any requested ID is not registered
+   */
+  resolveSelection(requestedIds?: string[]): ApiSpecDefinition[] {
+    const ids =
+      requestedIds && requestedIds.length > 0
+        ? requestedIds
+        : DEFAULT_CONFIG.specs.defaultApiIds.filter((id) => this.has(id))
+
+    const unknown = ids.filter((id) => !this.has(id))
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown API(s): ${unknown.join(', ')}`, {
+        unknown,
+        available: [...this.definitions.keys()],
+      })
+    }
+
+    return [...new Set(ids)].map((id) => this.definitions.get(id)!)
+  }
+}
+
+/**
+ * Lists what an API's credentials look like in requests
+ *
+ * @param auth - The authentication scheme of the API
+ * @param env - The environment object holding the secrets
+ * @returns The secret values and the query parameters that carry them
+ */
+export function authRedaction(
+  auth: ApiAuthConfig,
+  env: Env
+): { secrets: string[]; queryParams: string[] } {
+  const secrets = env as unknown as Record<string, string | undefined>
+  const name =
+    auth.type === 'bearer'
+      ? auth.tokenEnv
+      : auth.type === 'none'
+        ? undefined
+        : auth.valueEnv
+  const value = name ? secrets[name] : undefined
+  return {
+    secrets: value ? [value] : [],
+    queryParams: auth.type === 'query' ? [auth.name] : [],
+  }
+}
+
+/**
+ * Builds the request values needed to authenticate against an API
+ *
+ * @param auth - The authentication scheme of the API
+ * @param env - The environment object holding the secrets
+ * @returns Headers and query parameters to add to every request
+ */
+export function buildAuthValues(
+  auth: ApiAuthConfig,
+  env: Env
+): { headers: Record<string, string>; query: Record<string, string> } {
+  const secrets = env as unknown as Record<string, string | undefined>
+  switch (auth.type) {
+    case 'bearer':
+      return {
+        headers: { Authorization: `Bearer ${secrets[auth.tokenEnv] ?? ''}` },
+        query: {},
+      }
+    case 'header':
+      return {
+        headers: { [auth.name]: secrets[auth.valueEnv] ?? '' },
+        query: {},
+      }
+    case 'query':
+      return {
+        headers: {},
+        query: { [auth.name]: secrets[auth.valueEnv] ?? '' },
+      }
+    default:
+      return { headers: {}, query: {} }
+  }
+}
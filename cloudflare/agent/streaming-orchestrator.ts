@@ -1,10 +1,31 @@
 import type { Message as VercelMessage } from 'ai'
+import { ApprovalService } from './approval-service'
+import { DEFAULT_CONFIG, ModelOverrides, stageModel } from './config'
 import { DatabaseService } from './database-service'
+import {
+  ApprovalRejectedError,
+  CancelledError,
+  throwIfCancelled,
+} from './error-handling'
+import { isLocalTool } from './local-tools'
+import { findOperation } from './openapi-utils'
+import { packDocs, renderOperationDoc } from './operation-docs'
+import { CompletedStep, findReusableSteps, orderPlanSteps } from './plan-graph'
 import { PlanningService } from './planning-service'
 import { RagService } from './rag-service'
+import { ThrottleHandler } from './rate-limiter'
+import { shapeResults } from './result-shaping'
 import { ResponseGenerationService } from './response-generation-service'
-import { ToolExecutionService } from './tool-execution-service'
-import { ReasoningTrace } from './types'
+import { SpecRegistry } from './spec-registry'
+import { ApprovalHandler, ToolExecutionService } from './tool-execution-service'
+import {
+  ApiSpecDefinition,
+  DryRunStep,
+  ExecutionPlan,
+  ReasoningTrace,
+  StepFailure,
+  WorkflowOptions,
+} from './types'
 
 /**
  * Service for orchestrating the complete RAG workflow with streaming
@@ -21,13 +42,17 @@ export class StreamingOrchestrator {
    * @param toolExecutionService - Service for API execution
    * @param responseGenerationService - Service for response generation
    * @param databaseService - Service for data persistence
+   * @param specRegistry - Registry of the APIs the agent can target
+   * @param approvalService - Service for approving mutating API calls
    */
   constructor(
     private ragService: RagService,
     private planningService: PlanningService,
     private toolExecutionService: ToolExecutionService,
     private responseGenerationService: ResponseGenerationService,
-    private databaseService: DatabaseService
+    private databaseService: DatabaseService,
+    private specRegistry: SpecRegistry,
+    private approvalService: ApprovalService
   ) {}
 
   /**
@@ -40,6 +65,12 @@ export class StreamingOrchestrator {
    * @param userMessage - The user's message to process
    * @param fullMessages - Complete conversation history
    * @param controller - The stream controller for sending updates
+   * @param apis - The APIs this request targets
+   * @param options - `signal` is aborted when the client cancels the
+   * request, and the turn is then stored with a `cancelled` status;
+   * `bypassCache` makes every API call go upstream; `dryRun` stops after
+   * planning and streams the resolved requests instead of executing them;
+   * `models` changes the model settings of individual stages
    *
    * @example
    * ```typescript
@@ -48,14 +79,18 @@ export class StreamingOrchestrator {
    *   planningService,
    *   toolExecutionService,
    *   responseGenerationService,
-   *   databaseService
+   *   databaseService,
+   *   specRegistry,
+   *   approvalService
    * )
    *
    * await orchestrator.orchestrateRagWorkflow(
    *   threadId,
    *   userMessage,
    *   conversationHistory,
-   *   streamController
+   *   streamController,
+   *   specRegistry.resolveSelection(['tmdb']),
+   *   { signal: request.signal }
    * )
    * ```
    */
@@ -63,14 +98,18 @@ export class StreamingOrchestrator {
     threadId: string,
     userMessage: string,
     fullMessages: VercelMessage[],
-    controller: ReadableStreamDefaultController
+    controller: ReadableStreamDefaultController,
+    apis: ApiSpecDefinition[],
+    options: WorkflowOptions = {}
   ) {
+    const { signal, bypassCache, dryRun, models } = options
     const encoder = new TextEncoder()
     const trace: ReasoningTrace = {
       planningSteps: [],
       toolCalls: [],
       executionTrace: [],
     }
+    let fullResponse = ''
 
     console.log('🚀 [ORCHESTRATOR] Starting RAG workflow for:', userMessage)
 
@@ -83,60 +122,95 @@ export class StreamingOrchestrator {
       )
 
       // First, perform a semantic search to find the most relevant tools
-      const apiSearchResult = await this.ragService.searchApiDocumentation(
-        userMessage
-      )
+      const multipleApis = apis.length > 1
+      const foundDocs: Array<{
+        id: string
+        text: string
+        score: number
+        explanation: string
+      }> = []
+      const rankedDocs: Array<{ score: number; doc: string }> = []
+      const foundationalDocs: string[] = []
+
+      // Only the vector search uses the rewritten query
+      const searchQuery = apis.some((api) => api.ragIndexName)
+        ? await this.ragService.rewriteQuery(
+            userMessage,
+            fullMessages,
+            models,
+            signal
+          )
+        : userMessage
+      trace.searchQuery = searchQuery
 
-      const foundDocs = apiSearchResult.data.map(
-        (chunk: Record<string, unknown>) => ({
-          text:
-            (chunk.content as Array<Record<string, unknown>>)
+      for (const api of apis) {
+        throwIfCancelled(signal)
+        const spec = await this.specRegistry.loadSpec(api.id)
+        const apiSearchResult = await this.ragService.searchApiDocumentation(
+          userMessage,
+          api,
+          searchQuery
+        )
+        const prefix = multipleApis ? `[api: ${api.id}] ` : ''
+
+        for (const result of apiSearchResult.data) {
+          const text =
+            (result.content as Array<Record<string, unknown>>)
               ?.map((c: Record<string, unknown>) => c.text as string)
-              .join(' ') || '',
-        })
-      )
+              .join(' ') || ''
+          const explanation = `${result.category} · ${result.endpoint_type}; ${result.explanation.summary}`
+          const entry = result.operation_id
+            ? findOperation(spec, result.operation_id)
+            : undefined
+
+          foundDocs.push({
+            id: result.operation_id ?? String(result.id),
+            text: prefix + text,
+            score: result.relevance_score,
+            explanation,
+          })
+          // Each result tells the planner why it was picked
+          rankedDocs.push({
+            score: result.relevance_score,
+            doc:
+              prefix +
+              (entry ? renderOperationDoc(spec, entry) : text) +
+              `\nRelevance: ${result.relevance_score} (${explanation})`,
+          })
+        }
+
+        // Now, add a "safety net" of foundational tools to ensure
+        // the planner can always handle entity resolution.
+        const found = new Set(
+          apiSearchResult.data.map((result) => result.operation_id)
+        )
+        foundationalDocs.push(
+          ...(await this.buildFoundationalDocs(api, prefix, found))
+        )
+      }
+
+      foundDocs.sort((a, b) => b.score - a.score)
+      rankedDocs.sort((a, b) => b.score - a.score)
+      trace.ragChunks = foundDocs
 
       console.log(
         '✅ [ORCHESTRATOR] RAG found docs:',
-        JSON.stringify(foundDocs, null, 2)
+        foundDocs.map((doc) => `${doc.id} (${doc.explanation})`)
       )
 
-      // Now, create a "safety net" of foundational tools to ensure
-      // the planner can always handle entity resolution.
-      const foundationalTools = [
-        'search-multi',
-        'search-company',
-        'search-person',
-        'search-movie',
-        'search-tv',
-        'discover-movie',
-        'movie-credits',
-      ]
-      const tmdbOpenApi = await import('../../lib/tmdb-open-api.json')
-      const allPaths = tmdbOpenApi.default.paths as Record<
-        string,
-        Record<string, { operationId?: string }>
-      >
-      const foundationalDocs = foundationalTools
-        .map((toolName) => {
-          for (const path in allPaths) {
-            for (const method in allPaths[path]) {
-              if (allPaths[path][method].operationId === toolName) {
-                return JSON.stringify({
-                  path,
-                  ...allPaths[path][method],
-                })
-              }
-            }
-          }
-          return ''
-        })
-        .filter(Boolean)
-
-      // Combine the RAG results with the foundational tools, removing duplicates
-      const combinedDocs = [
-        ...new Set([...foundDocs.map((d) => d.text), ...foundationalDocs]),
-      ].join('\n\n')
+      // Combine the RAG results with the foundational tools, best first,
+      // keeping the planning prompt within its token budget
+      const { text: combinedDocs, omitted } = packDocs([
+        ...rankedDocs.map((ranked) => ranked.doc),
+        ...foundationalDocs,
+      ])
+      if (omitted > 0) {
+        console.log(
+          '✂️ [ORCHESTRATOR] Left',
+          omitted,
+          'operation docs out of the planning prompt'
+        )
+      }
 
       await this.sendTrace(
         controller,
@@ -146,16 +220,20 @@ export class StreamingOrchestrator {
       )
 
       // Step 2: Planning
+      throwIfCancelled(signal)
       await this.sendStatus(
         controller,
         encoder,
         'Planning execution steps. This may take a considerable amount of time...'
       )
 
-      const plan = await this.planningService.createExecutionPlan(
+      let plan = await this.planningService.createExecutionPlan(
         userMessage,
         combinedDocs,
-        fullMessages
+        fullMessages,
+        apis.map((api) => api.id),
+        signal,
+        models
       )
 
       console.log(
@@ -174,53 +252,259 @@ export class StreamingOrchestrator {
         steps: plan.steps.length,
       })
 
+      if (dryRun) {
+        // Show the requests the plan would send instead of sending them
+        await this.sendStatus(
+          controller,
+          encoder,
+          'Resolving API requests (dry run)...'
+        )
+        trace.dryRun = await this.toolExecutionService.resolvePlan(
+          plan,
+          apis.map((api) => api.id)
+        )
+        await this.sendTrace(controller, encoder, 'dry_run', trace.dryRun)
+
+        fullResponse = this.describeDryRun(trace.dryRun)
+        controller.enqueue(
+          encoder.encode(
+            JSON.stringify({ type: 'content', text: fullResponse }) + '\n'
+          )
+        )
+        await this.completeTurn(
+          controller,
+          encoder,
+          threadId,
+          userMessage,
+          fullResponse,
+          trace,
+          models,
+          signal
+        )
+
+        console.log('✅ [ORCHESTRATOR] Dry run completed')
+        return
+      }
+
       // Step 3: Execution
       await this.sendStatus(controller, encoder, 'Executing API calls...')
 
-      const executionResults = await this.toolExecutionService.executePlan(plan)
+      // Mutating calls pause the run until the user answers
+      const approve: ApprovalHandler = async (step, request) => {
+        const approval = await this.approvalService.create(
+          threadId,
+          step,
+          request
+        )
+        await this.sendEvent(controller, encoder, {
+          type: 'approval_required',
+          approval,
+        })
+        await this.sendStatus(
+          controller,
+          encoder,
+          `Waiting for approval of ${request.method} ${step.tool}...`
+        )
+        try {
+          await this.approvalService.waitForDecision(
+            approval.approvalId,
+            signal
+          )
+          await this.sendEvent(controller, encoder, {
+            type: 'approval_resolved',
+            approvalId: approval.approvalId,
+            status: 'approved',
+          })
+        } catch (error) {
+          if (error instanceof ApprovalRejectedError) {
+            await this.sendEvent(controller, encoder, {
+              type: 'approval_resolved',
+              approvalId: approval.approvalId,
+              status: error.details?.status,
+            })
+          }
+          throw error
+        }
+      }
+
+      // Calls over an API's rate limit wait for their turn
+      const onThrottle: ThrottleHandler = (host, delayMs) =>
+        this.sendStatus(
+          controller,
+          encoder,
+          `Rate limit reached for ${host}, waiting ${(delayMs / 1000).toFixed(1)}s...`
+        )
 
-      trace.executionTrace = executionResults.executionTrace
+      // Steps that succeeded in any round, so revisions don't send them again
+      const completed: CompletedStep[] = []
+
+      // Runs a plan and reports every step to the client
+      const runPlan = async (current: ExecutionPlan) => {
+        const reused = findReusableSteps(current, completed)
+        const execution = await this.toolExecutionService.executePlan(
+          current,
+          apis.map((api) => api.id),
+          {
+            signal,
+            bypassCache,
+            approve: this.approvalService.enabled ? approve : undefined,
+            onThrottle,
+            completed: Object.fromEntries(
+              Object.entries(reused).map(([id, done]) => [id, done.result])
+            ),
+          }
+        )
 
-      // Send tool call traces with interpolated arguments
-      for (const step of plan.steps) {
-        const result = executionResults.results[step.id]
-        const executionStep = executionResults.executionTrace.find(
-          (trace) => trace.step === step.description
+        trace.executionTrace = execution.executionTrace
+        trace.failures = Object.values(execution.failures)
+
+        // Remember what each new result was computed from
+        const ran: Record<string, CompletedStep> = { ...reused }
+        for (const step of orderPlanSteps(current)) {
+          if (step.id in reused || !(step.id in execution.results)) continue
+          ran[step.id] = {
+            step,
+            result: execution.results[step.id],
+            inputs: Object.fromEntries(
+              (step.depends_on || []).map((id) => [id, ran[id]])
+            ),
+          }
+          completed.push(ran[step.id])
+        }
+
+        // Send tool call traces with interpolated arguments
+        for (const step of current.steps) {
+          if (step.id in reused) continue
+          // Failed steps report their error, HTTP status and body instead
+          const result =
+            execution.results[step.id] ?? execution.failures[step.id]
+          const executionStep = execution.executionTrace.find(
+            (trace) => trace.step === step.description
+          )
+
+          // Find the actual (interpolated) parameters used in the execution
+          const finalArgs =
+            // @ts-expect-error - interpolatedParameters is not typed
+            executionStep?.details?.interpolatedParameters || step.parameters
+
+          await this.sendTrace(controller, encoder, 'tool_call', {
+            tool: step.tool,
+            args: finalArgs,
+            result: result,
+            status: executionStep?.status || 'completed',
+          })
+        }
+
+        await this.sendTrace(
+          controller,
+          encoder,
+          'execution_complete',
+          trace.executionTrace
         )
+        return { ...execution, reused: Object.keys(reused) }
+      }
 
-        // Find the actual (interpolated) parameters used in the execution
-        const finalArgs =
-          // @ts-expect-error - interpolatedParameters is not typed
-          executionStep?.details?.interpolatedParameters || step.parameters
+      let executionResults = await runPlan(plan)
+
+      // Observe and replan while steps fail or come back empty
+      for (
+        let revision = 1;
+        revision <= DEFAULT_CONFIG.planning.maxRevisions;
+        revision++
+      ) {
+        const issues = this.observeExecution(plan, executionResults)
+        if (issues.length === 0) break
+
+        throwIfCancelled(signal)
+        console.log(
+          `🔄 [ORCHESTRATOR] Revising the plan (${revision}):`,
+          issues
+        )
+        await this.sendStatus(
+          controller,
+          encoder,
+          `Revising the plan (${issues.length} issue${issues.length === 1 ? '' : 's'} found)...`
+        )
 
-        await this.sendTrace(controller, encoder, 'tool_call', {
-          tool: step.tool,
-          args: finalArgs,
-          result: result,
-          status: executionStep?.status || 'completed',
+        const revised = await this.planningService.revisePlan(
+          userMessage,
+          combinedDocs,
+          fullMessages,
+          apis.map((api) => api.id),
+          {
+            plan,
+            results: shapeResults(executionResults.results, plan, {
+              ...DEFAULT_CONFIG.shaping,
+              tokenBudget: DEFAULT_CONFIG.planning.revisionResultTokenBudget,
+            }).results,
+            issues,
+          },
+          signal,
+          models
+        )
+        if (!revised) {
+          console.warn(
+            '🔄 [ORCHESTRATOR] No valid revised plan, keeping results'
+          )
+          break
+        }
+
+        plan = revised
+        trace.planRevisions = [
+          ...(trace.planRevisions || []),
+          { revision, issues, plan },
+        ]
+        await this.sendTrace(controller, encoder, 'plan_revision', {
+          revision,
+          issues,
+          reasoning: plan.reasoning,
+          steps: plan.steps.length,
         })
+
+        await this.sendStatus(
+          controller,
+          encoder,
+          'Executing the new steps of the revised plan...'
+        )
+        executionResults = await runPlan(plan)
       }
 
+      // Keep the results within the response model's context
+      const shapedResults = shapeResults(executionResults.results, plan)
+      trace.resultShaping = {
+        tokens: shapedResults.tokens,
+        omitted: shapedResults.omitted,
+      }
+      if (shapedResults.omitted.length > 0) {
+        console.log(
+          `✂️ [ORCHESTRATOR] Shaped results to ~${shapedResults.tokens} tokens, omitted:`,
+          shapedResults.omitted
+        )
+      }
       await this.sendTrace(
         controller,
         encoder,
-        'execution_complete',
-        trace.executionTrace
+        'result_shaping',
+        trace.resultShaping
       )
 
       // Step 4: Response Generation
+      throwIfCancelled(signal)
       await this.sendStatus(controller, encoder, 'Generating response...')
 
       const responseStream =
         await this.responseGenerationService.generateFinalResponse(
           userMessage,
           plan,
-          executionResults.results,
-          fullMessages
+          shapedResults,
+          Object.values(executionResults.failures),
+          fullMessages,
+          apis.map((api) => api.name),
+          signal,
+          models
         )
 
       // Stream the final response
-      let fullResponse = ''
       for await (const chunk of responseStream.textStream) {
         fullResponse += chunk
         controller.enqueue(
@@ -229,30 +513,34 @@ export class StreamingOrchestrator {
           )
         )
       }
-      // Add a final done marker
-      controller.enqueue(
-        encoder.encode(JSON.stringify({ type: 'done' }) + '\n')
-      )
-
-      // Store final response with trace
-      await this.databaseService.insertTurn({
-        threadId,
-        role: 'assistant',
-        content: fullResponse,
-        timestamp: Date.now(),
-        trace: JSON.stringify(trace),
-      })
-
-      // Update thread metadata
-      await this.databaseService.upsertThread({
+      throwIfCancelled(signal)
+      await this.completeTurn(
+        controller,
+        encoder,
         threadId,
-        title:
-          fullResponse.slice(0, 100) + (fullResponse.length > 100 ? '...' : ''),
-        lastUpdated: Date.now(),
-      })
+        userMessage,
+        fullResponse,
+        trace,
+        models,
+        signal
+      )
 
       console.log('✅ [ORCHESTRATOR] RAG workflow completed successfully')
     } catch (error) {
+      if (signal?.aborted || error instanceof CancelledError) {
+        // The client is gone, so keep what was produced for the history
+        console.log('🛑 [ORCHESTRATOR] RAG workflow cancelled by the client')
+        await this.databaseService.insertTurn({
+          threadId,
+          role: 'assistant',
+          content: fullResponse,
+          timestamp: Date.now(),
+          trace: JSON.stringify(trace),
+          status: 'cancelled',
+        })
+        return
+      }
+
       console.error('❌ [ORCHESTRATOR] Error:', error)
 
       const errorMessage =
@@ -266,6 +554,179 @@ export class StreamingOrchestrator {
     }
   }
 
+  /**
+   * Finds what went wrong when running a plan
+   *
+   * Reused steps were already observed when they first ran, so their
+   * empty results are not reported again.
+   *
+   * @param plan - The plan that ran
+   * @param execution - Its results, failures and the IDs of reused steps
+   * @returns One line per failed step and per API call that returned
+   * nothing; empty when the plan worked
+   *
+   * @private
+   */
+  private observeExecution(
+    plan: ExecutionPlan,
+    execution: {
+      results: Record<string, unknown>
+      failures: Record<string, StepFailure>
+      reused: string[]
+    }
+  ): string[] {
+    const issues: string[] = []
+    for (const failure of Object.values(execution.failures)) {
+      // Skipped steps are explained by the failure that blocked them
+      if (failure.blockedBy) continue
+      const status =
+        failure.status !== undefined ? ` (HTTP ${failure.status})` : ''
+      issues.push(
+        `${failure.stepId} (${failure.tool}) failed${status}: ${failure.error}`
+      )
+    }
+    for (const step of plan.steps) {
+      // Local tools may legitimately narrow a list down to nothing
+      if (isLocalTool(step.tool) || execution.reused.includes(step.id)) {
+        continue
+      }
+      if (step.id in execution.results && isEmpty(execution.results[step.id])) {
+        issues.push(`${step.id} (${step.tool}) returned no results`)
+      }
+    }
+    return issues
+  }
+
+  /**
+   * Ends a turn: sends the done marker and stores the response
+   *
+   * When the `title` model stage is enabled it names new threads, which
+   * then keep their title; otherwise the title is the start of the latest
+   * answer.
+   *
+   * @param controller - The stream controller
+   * @param encoder - The text encoder
+   * @param threadId - The conversation thread ID
+   * @param userMessage - The question of this turn
+   * @param content - The assistant's response
+   * @param trace - The turn's reasoning trace
+   * @param models - Per-request model overrides
+   * @param signal - Stops the title model call when aborted
+   *
+   * @private
+   */
+  private async completeTurn(
+    controller: ReadableStreamDefaultController,
+    encoder: TextEncoder,
+    threadId: string,
+    userMessage: string,
+    content: string,
+    trace: ReasoningTrace,
+    models?: ModelOverrides,
+    signal?: AbortSignal
+  ) {
+    // Add a final done marker
+    controller.enqueue(encoder.encode(JSON.stringify({ type: 'done' }) + '\n'))
+
+    // Store final response with trace
+    await this.databaseService.insertTurn({
+      threadId,
+      role: 'assistant',
+      content,
+      timestamp: Date.now(),
+      trace: JSON.stringify(trace),
+      status: 'completed',
+    })
+
+    // Update thread metadata
+    const existing = stageModel('title', models).enabled
+      ? await this.databaseService.getThread(threadId)
+      : undefined
+    await this.databaseService.upsertThread({
+      threadId,
+      title:
+        existing?.title ||
+        (await this.responseGenerationService.generateTitle(
+          userMessage,
+          content,
+          models,
+          signal
+        )),
+      lastUpdated: Date.now(),
+    })
+  }
+
+  /**
+   * Renders the resolved requests of a dry run as Markdown
+   *
+   * @param steps - The resolved plan steps
+   * @returns One section per step with its request and curl command
+   *
+   * @private
+   */
+  private describeDryRun(steps: DryRunStep[]): string {
+    const sections = steps.map((step, index) => {
+      const lines = [`**${index + 1}. ${step.description}** (\`${step.tool}\`)`]
+      if (step.dependsOn.length > 0) {
+        lines.push(`Runs after ${step.dependsOn.join(', ')}.`)
+      }
+      if (step.forEach) {
+        lines.push(`Runs once per item of \`${step.forEach}\`.`)
+      }
+      if (step.error) {
+        lines.push(`⚠️ Could not resolve this step: ${step.error}`)
+        return lines.join('\n')
+      }
+      if (step.placeholders.length > 0) {
+        lines.push(
+          `Filled in from earlier results: ${step.placeholders
+            .map((placeholder) => `\`${placeholder}\``)
+            .join(', ')}`
+        )
+      }
+      if (step.local) {
+        lines.push(
+          'Runs locally on earlier results, without a request:',
+          '```json',
+          JSON.stringify(step.body, null, 2),
+          '```'
+        )
+        return lines.join('\n')
+      }
+      lines.push('```sh', step.curl!, '```')
+      return lines.join('\n')
+    })
+
+    return [
+      'Dry run: these are the API requests the plan would send. Nothing was executed.',
+      ...sections,
+    ].join('\n\n')
+  }
+
+  /**
+   * Builds documentation for an API's foundational tools
+   *
+   * @param api - The API whose foundational tools should be documented
+   * @param prefix - Text prepended to each doc to identify the API
+   * @param exclude - Operation IDs already documented by the RAG results
+   * @returns Promise containing one documentation string per tool found
+   *
+   * @private
+   */
+  private async buildFoundationalDocs(
+    api: ApiSpecDefinition,
+    prefix: string,
+    exclude: Set<string | null>
+  ): Promise<string[]> {
+    const spec = await this.specRegistry.loadSpec(api.id)
+
+    return api.foundationalTools
+      .filter((toolName) => !exclude.has(toolName))
+      .map((toolName) => findOperation(spec, toolName))
+      .filter((entry) => entry !== undefined)
+      .map((entry) => prefix + renderOperationDoc(spec, entry))
+  }
+
   /**
    * Sends a status update to the client
    *
@@ -285,6 +746,23 @@ export class StreamingOrchestrator {
     )
   }
 
+  /**
+   * Sends an event that is neither a status nor a trace to the client
+   *
+   * @param controller - The stream controller
+   * @param encoder - The text encoder
+   * @param event - The event, with its `type`
+   *
+   * @private
+   */
+  private async sendEvent(
+    controller: ReadableStreamDefaultController,
+    encoder: TextEncoder,
+    event: { type: string } & Record<string, unknown>
+  ) {
+    controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+  }
+
   /**
    * Sends trace information to the client
    *
@@ -308,3 +786,10 @@ export class StreamingOrchestrator {
     )
   }
 }
+
+// An empty list, or a page of results without any
+function isEmpty(result: unknown): boolean {
+  if (Array.isArray(result)) return result.length === 0
+  const results = (result as { results?: unknown } | null)?.results
+  return Array.isArray(results) && results.length === 0
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findTemplateErrors,
+  renderTemplate,
+  templateReferences,
+} from './template'
+
+const scope = {
+  step1: {
+    results: [
+      { id: 287, name: 'Brad Pitt', known_for: { title: 'Fight Club' } },
+      { id: 1136406, name: 'Tom Holland' },
+      { id: 5, name: null },
+    ],
+  },
+  step2: { results: [] },
+}
+
+function render(value: unknown) {
+  const unresolved: string[] = []
+  return { value: renderTemplate(value, scope, unresolved), unresolved }
+}
+
+describe('renderTemplate', () => {
+  it('keeps the value of a whole placeholder', () => {
+    expect(render('{{step1.results[0]}}').value).toEqual(scope.step1.results[0])
+    expect(render('{{ step1.results.1.id }}').value).toBe(1136406)
+  })
+
+  it('renders placeholders inside text', () => {
+    expect(
+      render(
+        '{{step1.results[0].name}} in {{step1.results[0].known_for.title}}'
+      ).value
+    ).toBe('Brad Pitt in Fight Club')
+    expect(render('ids: {{step1.results | pluck("id")}}').value).toBe(
+      'ids: 287,1136406,5'
+    )
+  })
+
+  it('walks arrays and objects', () => {
+    expect(
+      render({ path: { id: '{{step1.results[0].id}}' }, tags: ['{{"a"}}', 1] })
+        .value
+    ).toEqual({ path: { id: 287 }, tags: ['a', 1] })
+  })
+
+  it('applies filters left to right', () => {
+    expect(
+      render("{{step1.results | pluck('id') | slice(0, 2) | join('|')}}").value
+    ).toBe('287|1136406')
+    expect(render('{{step1.results | first}}').value).toEqual(
+      scope.step1.results[0]
+    )
+    expect(render('{{step1.results | last | default(0)}}').value).toEqual(
+      scope.step1.results[2]
+    )
+    expect(render("{{step1.results | pluck('name')}}").value).toEqual([
+      'Brad Pitt',
+      'Tom Holland',
+    ])
+  })
+
+  it('formats dates in UTC', () => {
+    expect(render("{{'2024-03-05T17:04:09Z' | date}}").value).toBe('2024-03-05')
+    expect(
+      render("{{'2024-03-05T17:04:09Z' | date('DD/MM/YYYY HH:mm:ss')}}").value
+    ).toBe('05/03/2024 17:04:09')
+  })
+
+  it('falls back with ??', () => {
+    expect(render('{{step2.results[0].id ?? step1.results[0].id}}').value).toBe(
+      287
+    )
+    expect(render("{{step2.results[0].id ?? 'none'}}").value).toBe('none')
+    expect(render('{{step2.results | first | default(0)}}').value).toBe(0)
+  })
+
+  it('reports placeholders that resolve to nothing', () => {
+    const { value, unresolved } = render({
+      id: '{{step3.results[0].id}}',
+      name: '{{step1.results[2].name}}',
+      text: 'page {{step2.results[0].page}}',
+    })
+
+    expect(value).toEqual({ id: undefined, name: undefined, text: 'page ' })
+    expect(unresolved).toEqual([
+      '{{step3.results[0].id}}: step3 is missing',
+      '{{step1.results[2].name}}: step1.results.2.name resolved to nothing',
+      '{{step2.results[0].page}}: step2.results.0 is missing',
+    ])
+  })
+
+  it('reports filters applied to the wrong kind of value', () => {
+    const { value, unresolved } = render('{{step1.results[0] | join}}')
+
+    expect(value).toBeUndefined()
+    expect(unresolved).toEqual([
+      '{{step1.results[0] | join}}: join expects a list, got an object',
+    ])
+  })
+
+  it('only reads own properties', () => {
+    const { unresolved } = render('{{step1.constructor}}')
+
+    expect(unresolved).toEqual([
+      '{{step1.constructor}}: step1.constructor is missing',
+    ])
+  })
+})
+
+describe('templateReferences', () => {
+  it('lists the referenced steps in order', () => {
+    expect(
+      templateReferences({
+        a: '{{step2.results | first ?? step1.results[0]}}',
+        b: ['{{item.id}}', "{{'literal'}}"],
+      })
+    ).toEqual(['step2', 'step1', 'item'])
+  })
+})
+
+describe('findTemplateErrors', () => {
+  it('accepts valid placeholders', () => {
+    expect(
+      findTemplateErrors({ q: "{{step1.results | pluck('id') | join(',')}}" })
+    ).toEqual([])
+  })
+
+  it('reports syntax errors and unknown filters', () => {
+    expect(
+      findTemplateErrors({
+        a: '{{step1.results | flatten}}',
+        b: "{{step1.results | join(',}}",
+        c: '{{step1.results[x]}}',
+      })
+    ).toEqual([
+      '{{step1.results | flatten}}: unknown filter flatten (use join, first, last, pluck, slice, date, default)',
+      '{{step1.results | join(\',}}: unterminated string at "\',"',
+      '{{step1.results[x]}}: expected an index at "x]"',
+    ])
+  })
+})
@@ -0,0 +1,419 @@
+/**
+ * Template language for plan step parameters
+ *
+ * Parameter values may contain `{{...}}` placeholders that are filled in
+ * from the results of earlier steps (and the current `item` of a fan-out
+ * step) right before a step runs. A placeholder holds an expression:
+ *
+ * - a reference: `step1`, `step1.results.0.id` or `step1.results[0].id`
+ * - a literal: `'text'`, `"text"` or a number
+ * - filters applied left to right: `step1.results | pluck('id') | join(',')`
+ * - fallbacks: `step1.results.0.id ?? step2.results.0.id ?? 0`
+ *
+ * A value that is a single placeholder takes the expression's value as is,
+ * so lists and objects can be passed along. Anything else is text: every
+ * placeholder is rendered to a string (lists joined with commas) and
+ * concatenated with the text around it.
+ *
+ * Only own properties of the results can be read and the filters are a
+ * fixed set, so templates cannot reach into anything else.
+ *
+ * @module Template
+ */
+
+interface Literal {
+  kind: 'literal'
+  value: string | number
+}
+
+interface Reference {
+  kind: 'reference'
+  root: string
+  segments: string[]
+}
+
+interface Filter {
+  name: string
+  args: Array<string | number>
+}
+
+// An operand followed by its filters; an expression is a list of these
+// separated by `??`
+interface Alternative {
+  operand: Literal | Reference
+  filters: Filter[]
+}
+
+type Expression = Alternative[]
+
+// Raised for templates that cannot be parsed or evaluated
+class TemplateError extends Error {}
+
+type FilterFn = (value: unknown, args: Array<string | number>) => unknown
+
+const FILTERS: Record<string, FilterFn> = {
+  // join(separator = ',')
+  join: (value, [separator = ',']) =>
+    expectList(value, 'join')
+      .map((item) => toText(item))
+      .join(String(separator)),
+  first: (value) => expectList(value, 'first')[0],
+  last: (value) => expectList(value, 'last').at(-1),
+  // pluck(field) maps a list of objects to one (dotted) field of each
+  pluck: (value, [field]) => {
+    if (field === undefined) throw new TemplateError('pluck needs a field')
+    const segments = String(field).split('.')
+    return expectList(value, 'pluck')
+      .map((item) => readPath(item, segments).value)
+      .filter((item) => item !== undefined && item !== null)
+  },
+  // slice(start, end?) works on lists and strings
+  slice: (value, [start = 0, end]) => {
+    if (!Array.isArray(value) && typeof value !== 'string') {
+      throw new TemplateError(
+        `slice expects a list or text, got ${kind(value)}`
+      )
+    }
+    return value.slice(
+      Number(start),
+      end === undefined ? undefined : Number(end)
+    )
+  },
+  // date(format = 'YYYY-MM-DD') with YYYY, MM, DD, HH, mm and ss, in UTC
+  date: (value, [format = 'YYYY-MM-DD']) => formatDate(value, String(format)),
+  default: (value, [fallback]) =>
+    value === undefined || value === null || value === '' ? fallback : value,
+}
+
+/**
+ * Fills in the placeholders of a value
+ *
+ * Strings are rendered, arrays and objects are walked, and everything else
+ * is returned unchanged.
+ *
+ * @param value - A step's parameters, or any part of them
+ * @param scope - Results of the completed steps keyed by step ID, plus
+ * `item` in fan-out steps
+ * @param unresolved - Collects one message per placeholder that did not
+ * produce a value, saying why
+ * @returns The value with its placeholders filled in
+ *
+ * @example
+ * ```typescript
+ * const problems: string[] = []
+ * renderTemplate(
+ *   { query: { with_cast: "{{step1.results | pluck('id') | slice(0, 2) | join(',')}}" } },
+ *   { step1: { results: [{ id: 287 }, { id: 1136406 }, { id: 5 }] } },
+ *   problems
+ * )
+ * // { query: { with_cast: '287,1136406' } }
+ * ```
+ */
+export function renderTemplate(
+  value: unknown,
+  scope: Record<string, unknown>,
+  unresolved: string[] = []
+): unknown {
+  if (typeof value === 'string') return renderString(value, scope, unresolved)
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplate(item, scope, unresolved))
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      out[key] = renderTemplate(item, scope, unresolved)
+    }
+    return out
+  }
+  return value
+}
+
+/**
+ * Lists the names referenced by the placeholders of a value
+ *
+ * @param value - A step's parameters or `for_each`
+ * @returns The step IDs (or `item`) that are read, in order of appearance
+ */
+export function templateReferences(value: unknown): string[] {
+  const references: string[] = []
+  for (const source of placeholders(value)) {
+    try {
+      for (const alternative of parseExpression(source)) {
+        if (alternative.operand.kind === 'reference') {
+          references.push(alternative.operand.root)
+        }
+      }
+    } catch {
+      // Reported by findTemplateErrors
+    }
+  }
+  return references
+}
+
+/**
+ * Checks the syntax of every placeholder in a value
+ *
+ * @param value - A step's parameters or `for_each`
+ * @returns One message per placeholder that cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * findTemplateErrors({ query: { with_cast: '{{step1.results | flatten}}' } })
+ * // ['{{step1.results | flatten}}: unknown filter flatten (use join, first, ...)']
+ * ```
+ */
+export function findTemplateErrors(value: unknown): string[] {
+  const errors: string[] = []
+  for (const source of placeholders(value)) {
+    try {
+      parseExpression(source)
+    } catch (error) {
+      errors.push(`{{${source}}}: ${(error as Error).message}`)
+    }
+  }
+  return errors
+}
+
+function renderString(
+  text: string,
+  scope: Record<string, unknown>,
+  unresolved: string[]
+): unknown {
+  const whole = text.match(/^\{\{([\s\S]*?)\}\}$/)
+  if (whole && !/\{\{|\}\}/.test(whole[1])) {
+    return evaluatePlaceholder(whole[1], scope, unresolved)
+  }
+  return text.replace(/\{\{([\s\S]*?)\}\}/g, (_, source: string) => {
+    const value = evaluatePlaceholder(source, scope, unresolved)
+    return value === undefined || value === null ? '' : toText(value)
+  })
+}
+
+// Evaluates one placeholder, recording why it has no value if it hasn't
+function evaluatePlaceholder(
+  source: string,
+  scope: Record<string, unknown>,
+  unresolved: string[]
+): unknown {
+  let reason: string | undefined
+  try {
+    for (const alternative of parseExpression(source)) {
+      const { operand, filters } = alternative
+      let value: unknown
+      if (operand.kind === 'literal') {
+        value = operand.value
+      } else {
+        const read = readPath(scope, [operand.root, ...operand.segments])
+        value = read.value
+        reason ??= read.missing && `${read.missing} is missing`
+      }
+      for (const filter of filters) {
+        // Only default() can make something out of nothing
+        if (
+          (value === undefined || value === null) &&
+          filter.name !== 'default'
+        ) {
+          continue
+        }
+        value = FILTERS[filter.name](value, filter.args)
+      }
+      if (value !== undefined && value !== null) return value
+      reason ??= `${describe(alternative)} resolved to nothing`
+    }
+  } catch (error) {
+    reason = (error as Error).message
+  }
+  unresolved.push(`{{${source.trim()}}}: ${reason}`)
+  return undefined
+}
+
+// Reads a path of own properties; `missing` names the first absent part
+function readPath(
+  value: unknown,
+  segments: string[]
+): { value: unknown; missing?: string } {
+  let current = value
+  for (let i = 0; i < segments.length; i++) {
+    if (
+      current === undefined ||
+      current === null ||
+      !Object.prototype.hasOwnProperty.call(current, segments[i])
+    ) {
+      return { value: undefined, missing: segments.slice(0, i + 1).join('.') }
+    }
+    current = (current as Record<string, unknown>)[segments[i]]
+  }
+  return { value: current }
+}
+
+// The sources of the {{...}} placeholders anywhere in a value
+function placeholders(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(/\{\{([\s\S]*?)\}\}/g)].map((match) => match[1])
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(placeholders)
+  }
+  return []
+}
+
+/**
+ * Parses a placeholder's expression
+ *
+ * Grammar:
+ * ```
+ * expression  := alternative ('??' alternative)*
+ * alternative := operand ('|' filter)*
+ * operand     := string | number | reference
+ * reference   := name ('.' (name | digits) | '[' digits ']')*
+ * filter      := name ('(' (literal (',' literal)*)? ')')?
+ * ```
+ */
+function parseExpression(source: string): Expression {
+  let pos = 0
+
+  const fail = (message: string): never => {
+    throw new TemplateError(
+      pos < source.length ? `${message} at "${source.slice(pos)}"` : message
+    )
+  }
+  const skipSpace = () => {
+    while (/\s/.test(source[pos] ?? '')) pos++
+  }
+  const consume = (token: string) => {
+    skipSpace()
+    if (!source.startsWith(token, pos)) return false
+    pos += token.length
+    return true
+  }
+  const match = (pattern: RegExp) => {
+    skipSpace()
+    const found = pattern.exec(source.slice(pos))
+    if (!found) return undefined
+    pos += found[0].length
+    return found[0]
+  }
+
+  const parseLiteral = (): Literal | undefined => {
+    skipSpace()
+    const quote = source[pos]
+    if (quote === "'" || quote === '"') {
+      const end = source.indexOf(quote, pos + 1)
+      if (end < 0) fail('unterminated string')
+      const value = source.slice(pos + 1, end)
+      pos = end + 1
+      return { kind: 'literal', value }
+    }
+    const number = match(/^-?\d+(\.\d+)?/)
+    return number !== undefined
+      ? { kind: 'literal', value: Number(number) }
+      : undefined
+  }
+
+  const parseOperand = (): Literal | Reference => {
+    const literal = parseLiteral()
+    if (literal) return literal
+    const root =
+      match(/^[A-Za-z_]\w*/) ?? fail('expected a reference or a literal')
+    const segments: string[] = []
+    for (;;) {
+      if (source[pos] === '.') {
+        pos++
+        segments.push(
+          /^\w+/.exec(source.slice(pos))?.[0] ?? fail('expected a field name')
+        )
+        pos += segments[segments.length - 1].length
+      } else if (source[pos] === '[') {
+        pos++
+        const index =
+          /^\d+/.exec(source.slice(pos))?.[0] ?? fail('expected an index')
+        pos += index.length
+        if (source[pos] !== ']') fail('expected ]')
+        pos++
+        segments.push(index)
+      } else {
+        return { kind: 'reference', root, segments }
+      }
+    }
+  }
+
+  const parseFilter = (): Filter => {
+    const name = match(/^[A-Za-z_]\w*/) ?? fail('expected a filter name')
+    if (!Object.prototype.hasOwnProperty.call(FILTERS, name)) {
+      fail(`unknown filter ${name} (use ${Object.keys(FILTERS).join(', ')})`)
+    }
+    const args: Array<string | number> = []
+    if (consume('(') && !consume(')')) {
+      do {
+        args.push((parseLiteral() ?? fail('expected a string or number')).value)
+      } while (consume(','))
+      if (!consume(')')) fail('expected )')
+    }
+    return { name, args }
+  }
+
+  const expression: Expression = []
+  do {
+    const operand = parseOperand()
+    const filters: Filter[] = []
+    while (consume('|')) {
+      filters.push(parseFilter())
+    }
+    expression.push({ operand, filters })
+  } while (consume('??'))
+
+  skipSpace()
+  if (pos < source.length) fail('unexpected input')
+  return expression
+}
+
+function expectList(value: unknown, filter: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new TemplateError(`${filter} expects a list, got ${kind(value)}`)
+  }
+  return value
+}
+
+function formatDate(value: unknown, format: string): string {
+  const date =
+    typeof value === 'number' || typeof value === 'string'
+      ? new Date(value)
+      : undefined
+  if (!date || isNaN(date.getTime())) {
+    throw new TemplateError(`date expects a date, got ${JSON.stringify(value)}`)
+  }
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  }
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token])
+}
+
+// Text form of a value inside a string: lists become comma-separated
+function toText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(toText).join(',')
+  if (value && typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function kind(value: unknown): string {
+  if (Array.isArray(value)) return 'a list'
+  if (value === null || value === undefined) return 'nothing'
+  return typeof value === 'object'
+    ? 'an object'
+    : `${typeof value} ${JSON.stringify(value)}`
+}
+
+function describe({ operand, filters }: Alternative): string {
+  return [
+    operand.kind === 'literal'
+      ? JSON.stringify(operand.value)
+      : [operand.root, ...operand.segments].join('.'),
+    ...filters.map((filter) => filter.name),
+  ].join(' | ')
+}
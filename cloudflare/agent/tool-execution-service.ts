@@ -2,188 +2,794 @@
  * Tool Execution Service
  *
  * This service is responsible for executing API calls based on a structured
- * plan. It uses the @cloudflare/ai-utils library to create executable
- * tool functions from the OpenAPI spec, ensuring a reliable and
- * deterministic execution flow.
+ * plan. Each step's tool is an operation of one of the registered OpenAPI
+ * specs; requests are built straight from the spec and sent through an
+ * `HttpClient` that applies the configured timeout and retry policy,
+ * ensuring a reliable and deterministic execution flow.
  *
  * @module ToolExecutionService
  */
 
-import { createToolsFromOpenAPISpec } from '@cloudflare/ai-utils'
-import { Env, ExecutionPlan, ReasoningTrace } from './types'
+import { authorizeRequest, buildApiRequest, toCurl } from './api-request'
+import { DEFAULT_CONFIG } from './config'
+import {
+  AgentError,
+  ApprovalRejectedError,
+  CancelledError,
+  ExecutionError,
+} from './error-handling'
+import { HttpClient } from './http-client'
+import { isLocalTool, runLocalTool } from './local-tools'
+import { listOperations, OperationEntry } from './openapi-utils'
+import { orderPlanSteps } from './plan-graph'
+import { RateLimiter, ThrottleHandler } from './rate-limiter'
+import { ResponseCache } from './response-cache'
+import { renderTemplate } from './template'
+import { buildAuthValues, SpecRegistry } from './spec-registry'
+import {
+  ApiRequest,
+  DryRunStep,
+  Env,
+  ExecutionPlan,
+  ExecutionStep,
+  HttpAttempt,
+  ReasoningTrace,
+  StepFailure,
+} from './types'
 
-// Generic OpenAPI spec interface
-interface OpenAPISpec {
-  paths: Record<string, Record<string, { operationId: string }>>
-  [key: string]: unknown
+type TraceEntry = NonNullable<ReasoningTrace['executionTrace']>[number]
+
+interface ToolCallResult {
+  body: unknown
+  // The request as sent, minus credentials
+  request: ApiRequest
+  status: number
+  attempts: HttpAttempt[]
+  // Set for GET calls only
+  cache?: 'hit' | 'miss' | 'bypass'
+  // Set when further pages were fetched and merged into the body
+  pagination?: { pages: number; totalPages: number; results: number }
+  // Set for calls that went through the approval gate
+  approval?: 'approved'
+  // Time spent waiting for the rate limit
+  throttledMs?: number
+}
+
+/**
+ * Asks the user to approve a mutating call; resolves once approved and
+ * throws otherwise
+ */
+export type ApprovalHandler = (
+  step: ExecutionStep,
+  request: ApiRequest
+) => Promise<void>
+
+// The shape TMDB-style list endpoints page their results in
+interface PagedBody {
+  page: number
+  total_pages: number
+  results: unknown[]
 }
 
-// Define the core tool structure based on the source of ai-utils
-interface Tool {
-  name: string
-  description: string
-  parameters: Record<string, unknown>
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  function: (args: any) => Promise<any>
+interface ToolCallOptions {
+  signal?: AbortSignal
+  bypassCache?: boolean
+  approve?: ApprovalHandler
+  onThrottle?: ThrottleHandler
 }
 
 /**
  * Service for executing API calls based on a structured plan.
  */
 export class ToolExecutionService {
-  private openApiSpec: OpenAPISpec
-  private baseUrl: string
-  private tools: Tool[] = []
+  private operationsBySpec = new Map<
+    string,
+    Promise<Map<string, OperationEntry>>
+  >()
+  private baseUrlOverride?: (specId: string) => string
 
-  constructor(private env: Env, openApiSpec: OpenAPISpec, baseUrl: string) {
-    this.openApiSpec = openApiSpec
-    this.baseUrl = baseUrl
+  constructor(
+    private env: Env,
+    private registry: SpecRegistry,
+    private httpClient: HttpClient = new HttpClient(),
+    private responseCache?: ResponseCache,
+    private rateLimiter: RateLimiter = new RateLimiter()
+  ) {}
+
+  /**
+   * Initializes the service by indexing the operations of the OpenAPI specs.
+   *
+   * Operations are indexed once per spec; later calls for the same spec
+   * reuse them.
+   *
+   * @param specIds - The specs to index (defaults to all registered)
+   */
+  async initialize(specIds: string[] = this.registry.list().map((s) => s.id)) {
+    await Promise.all(specIds.map((id) => this.getOperations(id)))
   }
 
   /**
-   * Initializes the service by creating tools from the OpenAPI spec.
+   * Sends calls somewhere other than the registered base URLs, such as the
+   * mock API server.
+   *
+   * @param resolve - Returns the base URL for a spec; undefined restores
+   * the registered ones
    */
-  async initialize() {
-    this.tools = (await createToolsFromOpenAPISpec(
-      JSON.stringify(this.openApiSpec),
-      {
-        overrides: [
-          {
-            matcher: ({ url }: { url: URL }) =>
-              url.hostname === new URL(this.baseUrl).hostname,
-            values: {
-              headers: {
-                'Accept': 'application/json',
-                'Authorization': `Bearer ${this.env.TMDB_API_TOKEN}`,
-              },
-            },
-          },
-        ],
+  overrideBaseUrls(resolve?: (specId: string) => string) {
+    this.baseUrlOverride = resolve
+  }
+
+  /**
+   * Drops the cached operations for a spec so they are rebuilt on next use.
+   */
+  invalidate(specId: string) {
+    this.operationsBySpec.delete(specId)
+  }
+
+  private baseUrl(specId: string): string {
+    return this.baseUrlOverride?.(specId) ?? this.registry.get(specId)!.baseUrl
+  }
+
+  private getOperations(specId: string): Promise<Map<string, OperationEntry>> {
+    let operations = this.operationsBySpec.get(specId)
+    if (!operations) {
+      if (!this.registry.has(specId)) {
+        return Promise.reject(new Error(`Unknown API: ${specId}`))
       }
-    )) as Tool[]
+      operations = this.registry
+        .loadSpec(specId)
+        .then(
+          (spec) =>
+            new Map(listOperations(spec).map((op) => [op.operationId, op]))
+        )
+      this.operationsBySpec.set(specId, operations)
+      operations.catch(() => this.operationsBySpec.delete(specId))
+    }
+    return operations
   }
 
+  // Placeholders that do not resolve are added to `unresolved`
   private interpolateParameters(
     parameters: Record<string, unknown>,
-    results: Record<string, unknown>
+    results: Record<string, unknown>,
+    unresolved: string[] = []
   ): Record<string, unknown> {
-    const interpolate = (value: unknown): unknown => {
-      if (typeof value === 'string') {
-        const match = value.match(/\{\{([\w\d_]+)\.([\w\d_\[\].]+)\}\}/)
-        if (match) {
-          const stepId = match[1]
-          const path = match[2]
-          const stepResult = results[stepId]
-
-          if (stepResult) {
-            try {
-              const pathParts = path.replace(/\[(\d+)\]/g, '.$1').split('.')
-              let v: unknown = stepResult
-              for (const part of pathParts) {
-                if (v == null) break
-                v = (v as Record<string, unknown>)[part]
-              }
-              // Unlike the direct fetch implementation, we can pass objects here
-              return v
-            } catch {
-              return value
-            }
-          }
-        }
-        return value
-      } else if (Array.isArray(value)) {
-        return value.map(interpolate)
-      } else if (typeof value === 'object' && value !== null) {
-        const out: Record<string, unknown> = {}
-        for (const k in value) {
-          out[k] = interpolate((value as Record<string, unknown>)[k])
-        }
-        return out
-      }
-      return value
-    }
-    return interpolate(parameters) as Record<string, unknown>
+    return renderTemplate(parameters, results, unresolved) as Record<
+      string,
+      unknown
+    >
   }
 
-  async executePlan(plan: ExecutionPlan) {
-    const results: Record<string, unknown> = {}
+  /**
+   * Executes a plan, running independent steps in parallel.
+   *
+   * Steps are scheduled as a DAG: a step starts as soon as every step in
+   * its `depends_on` has completed, with at most `maxConcurrency` steps in
+   * flight. Steps with `for_each` run their tool once per list item (see
+   * `resolveFanOutItems`), gathering the results into an array in list
+   * order; the first item that fails stops the items not yet started. Steps using a local data tool (`filter`, `sort`, ...) run
+   * in-process on earlier results. Invalid graphs (unknown dependencies, cycles) are rejected
+   * before anything runs. A step whose `{{...}}` references resolve to
+   * nothing fails instead of calling its tool with missing inputs. A
+   * failing step doesn't stop its siblings: it is
+   * recorded in `failures` with the upstream status and body, and the
+   * steps that depend on it are skipped. Only cancellation and a rejected
+   * approval stop the whole run, once running steps have settled. GET calls
+   * are served from the response cache when one is configured; other
+   * calls wait for `approve` first. Every attempt of a call that reaches the
+   * upstream, retries included, goes through the per-host rate limiter
+   * (`AgentConfig.api.rateLimit`). Steps listed in `completed` (e.g. kept
+   * from before a plan revision) are not run again: their earlier results
+   * are used instead.
+   *
+   * @param plan - The plan to execute
+   * @param specIds - The APIs whose tools the plan may use
+   * @param options - `maxConcurrency` caps how many steps run at the same
+   * time; aborting `signal` cancels calls in flight and stops new ones;
+   * `bypassCache` skips cache lookups (fresh responses are still stored);
+   * `approve` is asked before every non-GET call; `onThrottle` is told
+   * before a call waits for the rate limit; `completed` holds the results
+   * of steps that already ran, by step ID
+   * @returns Promise containing the results and failures keyed by step ID,
+   * and the trace
+   * @throws {CancelledError} When the signal is aborted
+   * @throws {ApprovalRejectedError} When the user rejects a call
+   */
+  async executePlan(
+    plan: ExecutionPlan,
+    specIds: string[] = this.registry.list().map((s) => s.id),
+    options: {
+      maxConcurrency?: number
+      signal?: AbortSignal
+      bypassCache?: boolean
+      approve?: ApprovalHandler
+      onThrottle?: ThrottleHandler
+      completed?: Record<string, unknown>
+    } = {}
+  ) {
+    const {
+      maxConcurrency = DEFAULT_CONFIG.execution.maxConcurrency,
+      signal,
+      bypassCache,
+      approve,
+      onThrottle,
+      completed = {},
+    } = options
+    const callOptions: ToolCallOptions = {
+      signal,
+      bypassCache,
+      approve,
+      onThrottle,
+    }
+    const results: Record<string, unknown> = { ...completed }
+    const failures: Record<string, StepFailure> = {}
     const executionTrace: ReasoningTrace['executionTrace'] = []
 
-    const stepMap = new Map(plan.steps.map((step) => [step.id, step]))
-    const completed = new Set<string>()
-
-    const executeStep = async (stepId: string): Promise<unknown> => {
-      if (completed.has(stepId)) return results[stepId]
-
-      const step = stepMap.get(stepId)
-      if (!step) throw new Error(`Step ${stepId} not found`)
+    const ordered = orderPlanSteps(plan)
+    for (const step of ordered) {
+      if (!(step.id in completed)) continue
+      executionTrace.push({
+        step: step.description,
+        status: 'completed',
+        details: { toolUsed: step.tool, reused: true },
+      })
+    }
+    const pending = ordered.filter((step) => !(step.id in completed))
+    const remaining = new Map(
+      pending.map((step) => [
+        step.id,
+        new Set((step.depends_on || []).filter((id) => !(id in completed))),
+      ])
+    )
+    const ready = pending.filter((step) => remaining.get(step.id)!.size === 0)
+    let running = 0
+    let failure: unknown
 
-      if (step.depends_on) {
-        for (const depId of step.depends_on) {
-          await executeStep(depId)
-        }
+    const executeStep = async (step: ExecutionStep) => {
+      const traceEntry: TraceEntry = {
+        step: step.description,
+        status: 'running',
       }
-
-      executionTrace.push({ step: step.description, status: 'running' })
+      executionTrace.push(traceEntry)
+      const startedAt = Date.now()
 
       try {
-        const interpolatedParams = this.interpolateParameters(
-          step.parameters,
-          results
-        )
+        const toolSpecIds = step.api ? [step.api] : specIds
+        let result: unknown
+        let interpolatedParams: unknown
+        let callDetails: Record<string, unknown>
 
-        const result = await this.executeTool(step.tool, interpolatedParams)
+        const unresolved: string[] = []
+        if (isLocalTool(step.tool)) {
+          interpolatedParams = this.interpolateParameters(
+            step.parameters,
+            results,
+            unresolved
+          )
+          assertResolved(step, unresolved)
+          result = runLocalTool(
+            step,
+            interpolatedParams as Record<string, unknown>
+          )
+          callDetails = { method: 'local' }
+        } else if (step.for_each) {
+          const { items, total } = this.resolveFanOutItems(step, results)
+          interpolatedParams = items.map((item) =>
+            this.interpolateParameters(
+              step.parameters,
+              { ...results, item },
+              unresolved
+            )
+          )
+          assertResolved(step, unresolved)
+          const calls = await mapWithConcurrency(
+            interpolatedParams as Record<string, unknown>[],
+            DEFAULT_CONFIG.execution.fanOutConcurrency,
+            (params) => this.callStep(step, params, toolSpecIds, callOptions)
+          )
+          result = calls.map((call) => call.body)
+          callDetails = {
+            calls: calls.map(
+              ({
+                request,
+                status,
+                attempts,
+                cache,
+                pagination,
+                approval,
+                throttledMs,
+              }) => ({
+                url: request.url,
+                status,
+                attempts,
+                cache,
+                pagination,
+                approval,
+                throttledMs,
+              })
+            ),
+            fanOut: {
+              items: items.length,
+              total,
+              truncated: total > items.length,
+            },
+          }
+        } else {
+          interpolatedParams = this.interpolateParameters(
+            step.parameters,
+            results,
+            unresolved
+          )
+          assertResolved(step, unresolved)
+          const call = await this.callStep(
+            step,
+            interpolatedParams as Record<string, unknown>,
+            toolSpecIds,
+            callOptions
+          )
+          result = call.body
+          callDetails = {
+            httpMethod: call.request.method,
+            url: call.request.url,
+            status: call.status,
+            attempts: call.attempts,
+            cache: call.cache,
+            pagination: call.pagination,
+            approval: call.approval,
+            throttledMs: call.throttledMs,
+          }
+        }
 
-        results[stepId] = result
-        completed.add(stepId)
+        results[step.id] = result
 
-        const lastTrace = executionTrace[executionTrace.length - 1]
-        lastTrace.status = 'completed'
-        lastTrace.details = {
+        traceEntry.status = 'completed'
+        traceEntry.details = {
           toolUsed: step.tool,
           resultSize: JSON.stringify(result).length,
-          method: 'ai-utils-function-call',
+          method: 'http',
           interpolatedParameters: interpolatedParams,
+          durationMs: Date.now() - startedAt,
+          ...callDetails,
         }
-
-        return result
       } catch (error) {
-        const lastTrace = executionTrace[executionTrace.length - 1]
-        lastTrace.status = 'error'
+        traceEntry.status = 'error'
         const errorMessage =
           error instanceof Error ? error.message : String(error)
-        lastTrace.details = { error: errorMessage }
+        traceEntry.details = {
+          toolUsed: step.tool,
+          error: errorMessage,
+          durationMs: Date.now() - startedAt,
+          // e.g. the HTTP status, response body and attempts of an ApiError
+          ...(error instanceof AgentError && error.details),
+        }
 
         throw error instanceof Error ? error : new Error(errorMessage)
       }
     }
 
-    for (const step of plan.steps) {
-      await executeStep(step.id)
+    await new Promise<void>((resolve) => {
+      const launch = () => {
+        if (signal?.aborted) failure ??= new CancelledError()
+        while (
+          failure === undefined &&
+          running < maxConcurrency &&
+          ready.length
+        ) {
+          const step = ready.shift()!
+          running++
+          executeStep(step)
+            .then(
+              () => {
+                // Release the steps that were only waiting on this one
+                for (const next of pending) {
+                  const waitingOn = remaining.get(next.id)!
+                  if (waitingOn.delete(step.id) && waitingOn.size === 0) {
+                    ready.push(next)
+                  }
+                }
+              },
+              (error) => {
+                if (
+                  error instanceof CancelledError ||
+                  error instanceof ApprovalRejectedError
+                ) {
+                  failure ??= error
+                  return
+                }
+                const details =
+                  error instanceof AgentError ? error.details : undefined
+                failures[step.id] = {
+                  stepId: step.id,
+                  tool: step.tool,
+                  description: step.description,
+                  error: error instanceof Error ? error.message : String(error),
+                  status: details?.status as number | undefined,
+                  body: details?.body,
+                }
+                console.warn(
+                  `⚠️ [EXECUTION] Step ${step.id} (${step.tool}) failed, continuing with the other steps:`,
+                  failures[step.id].error
+                )
+              }
+            )
+            .finally(() => {
+              running--
+              launch()
+            })
+        }
+        if (running === 0) resolve()
+      }
+      launch()
+    })
+
+    if (failure !== undefined) throw failure
+
+    // Steps still waiting were blocked by a failed step (in plan order, so
+    // a dependency is always recorded before its dependents)
+    for (const step of ordered) {
+      if (step.id in results || failures[step.id]) continue
+      const blockedBy = (step.depends_on || []).filter((id) => failures[id])
+      failures[step.id] = {
+        stepId: step.id,
+        tool: step.tool,
+        description: step.description,
+        error: `Skipped because ${blockedBy.join(', ')} failed`,
+        blockedBy,
+      }
+      executionTrace.push({
+        step: step.description,
+        status: 'skipped',
+        details: { toolUsed: step.tool, blockedBy },
+      })
+    }
+
+    return { results, failures, executionTrace }
+  }
+
+  /**
+   * Resolves a plan into the requests it would send, without sending any.
+   *
+   * Each step is built from its operation in the spec like `executePlan`
+   * would, except that values depending on earlier steps are left as their
+   * `{{...}}` placeholders. Steps are returned in execution order; a step
+   * that can't be built (e.g. an unknown tool) carries an `error` instead.
+   *
+   * @param plan - The plan to resolve
+   * @param specIds - The APIs whose tools the plan may use
+   * @returns Promise containing one resolved request per step
+   * @throws {ExecutionError} When the dependency graph is invalid
+   */
+  async resolvePlan(
+    plan: ExecutionPlan,
+    specIds: string[] = this.registry.list().map((s) => s.id)
+  ): Promise<DryRunStep[]> {
+    const resolved: DryRunStep[] = []
+
+    for (const step of orderPlanSteps(plan)) {
+      const dryRunStep: DryRunStep = {
+        stepId: step.id,
+        tool: step.tool,
+        description: step.description,
+        dependsOn: step.depends_on || [],
+        forEach: step.for_each,
+        placeholders: [
+          ...new Set(
+            JSON.stringify([step.parameters, step.for_each]).match(
+              /\{\{[^}]+\}\}/g
+            ) || []
+          ),
+        ],
+      }
+      resolved.push(dryRunStep)
+
+      if (isLocalTool(step.tool)) {
+        // Runs on earlier results without sending a request
+        dryRunStep.local = true
+        dryRunStep.body = step.parameters
+        continue
+      }
+
+      try {
+        const { entry, specId } = await this.findTool(
+          step.tool,
+          step.api ? [step.api] : specIds
+        )
+        const definition = this.registry.get(specId)!
+        const built = buildApiRequest(
+          entry,
+          this.baseUrl(specId),
+          step.parameters
+        )
+        const request = { ...built, url: restorePlaceholders(built.url) }
+        dryRunStep.method = request.method
+        dryRunStep.url = request.url.split('?')[0]
+        dryRunStep.query = Object.fromEntries(new URL(built.url).searchParams)
+        dryRunStep.body = (step.parameters as { body?: unknown }).body
+        dryRunStep.curl = toCurl(request, definition.auth)
+      } catch (error) {
+        dryRunStep.error =
+          error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    return resolved
+  }
+
+  /**
+   * Resolves the list a fan-out step runs over.
+   *
+   * `for_each` must reference a list from an earlier step, e.g.
+   * `{{step1.results}}`. The list is capped by the step's `max_items` and
+   * the configured `maxFanOut`, whichever is lower.
+   *
+   * @param step - The fan-out step
+   * @param results - Results of the steps completed so far
+   * @returns The items to run the step for and the length of the full list
+   */
+  private resolveFanOutItems(
+    step: ExecutionStep,
+    results: Record<string, unknown>
+  ): { items: unknown[]; total: number } {
+    const unresolved: string[] = []
+    const list = this.interpolateParameters(
+      { list: step.for_each },
+      results,
+      unresolved
+    ).list
+    assertResolved(step, unresolved)
+    if (!Array.isArray(list)) {
+      throw new ExecutionError(
+        `Step ${step.id}: for_each ${step.for_each} did not resolve to a list`,
+        { stepId: step.id, forEach: step.for_each }
+      )
+    }
+
+    const cap = Math.min(
+      step.max_items ?? Infinity,
+      DEFAULT_CONFIG.execution.maxFanOut
+    )
+    return { items: list.slice(0, cap), total: list.length }
+  }
+
+  /**
+   * Calls a step's tool, following pagination when the step asks for it.
+   *
+   * When a step sets `max_pages` or `min_results` and the response is a
+   * page of results (`page`, `total_pages` and a `results` list), the next
+   * pages are fetched one by one until `max_pages` pages (capped by the
+   * configured `maxPages`) or `min_results` results have been collected,
+   * or the last page is reached. The body of the first page is returned
+   * with the merged `results` and a `pages_fetched` count.
+   *
+   * @param step - The step being executed
+   * @param parameters - The step's interpolated parameters
+   * @param specIds - The specs to look the operation up in, in order
+   * @param options - Cancellation and cache options
+   * @returns Promise containing the (merged) response
+   */
+  private async callStep(
+    step: ExecutionStep,
+    parameters: Record<string, unknown>,
+    specIds: string[],
+    options: ToolCallOptions
+  ): Promise<ToolCallResult> {
+    const first = await this.executeTool(step, parameters, specIds, options)
+    if (step.max_pages === undefined && step.min_results === undefined) {
+      return first
+    }
+    if (!isPagedBody(first.body)) return first
+
+    const maxPages = Math.min(
+      step.max_pages ?? Infinity,
+      DEFAULT_CONFIG.execution.maxPages
+    )
+    const minResults = step.min_results ?? Infinity
+    const results = [...first.body.results]
+    const attempts = [...first.attempts]
+    let throttledMs = first.throttledMs ?? 0
+    let page = first.body.page
+    let pages = 1
+
+    while (
+      pages < maxPages &&
+      page < first.body.total_pages &&
+      results.length < minResults
+    ) {
+      const query = (parameters.query || {}) as Record<string, unknown>
+      const next = await this.executeTool(
+        step,
+        { ...parameters, query: { ...query, page: page + 1 } },
+        specIds,
+        options
+      )
+      attempts.push(...next.attempts)
+      throttledMs += next.throttledMs ?? 0
+      if (!isPagedBody(next.body) || next.body.results.length === 0) break
+      results.push(...next.body.results)
+      page = next.body.page
+      pages++
     }
 
-    return { results, executionTrace }
+    return {
+      ...first,
+      body: { ...first.body, results, pages_fetched: pages },
+      attempts,
+      throttledMs: throttledMs || undefined,
+      pagination: {
+        pages,
+        totalPages: first.body.total_pages,
+        results: results.length,
+      },
+    }
   }
 
+  /**
+   * Calls an operation of one of the given specs.
+   *
+   * GET responses are looked up in and stored to the response cache, keyed
+   * by the operation and its parameters. Other methods always hit the API,
+   * and only once `approve` has accepted the request.
+   *
+   * @param step - The step whose tool (operationId) to call
+   * @param parameters - The step's parameters, nested by location
+   * @param specIds - The specs to look the operation up in, in order
+   * @param options - `signal` cancels the call; `bypassCache` skips the
+   * cache lookup; `approve` gates non-GET calls; `onThrottle` hears about
+   * rate limit waits
+   * @returns Promise containing the parsed response and how it was obtained
+   * @throws {ApiError} When the upstream call fails after retries
+   * @throws {ExecutionError} When a non-GET call needs approval but no
+   * approver was given
+   * @throws {RateLimitError} When the call is over the rate limit and the
+   * policy does not let it wait
+   */
   private async executeTool(
+    step: ExecutionStep,
+    parameters: Record<string, unknown>,
+    specIds: string[],
+    options: ToolCallOptions = {}
+  ): Promise<ToolCallResult> {
+    const toolName = step.tool
+    const { entry, specId } = await this.findTool(toolName, specIds)
+    const definition = this.registry.get(specId)!
+    const request = buildApiRequest(entry, this.baseUrl(specId), parameters)
+
+    const cache =
+      entry.method === 'get' &&
+      this.responseCache?.isCacheable(entry.operationId)
+        ? this.responseCache
+        : undefined
+    const cacheKey = cache?.key(specId, entry.operationId, parameters)
+    if (cache && cacheKey && !options.bypassCache) {
+      const cached = await cache.get(cacheKey)
+      if (cached) {
+        return {
+          body: cached.body,
+          request,
+          status: cached.status,
+          attempts: [],
+          cache: 'hit',
+        }
+      }
+    }
+
+    let approval: ToolCallResult['approval']
+    if (entry.method !== 'get' && DEFAULT_CONFIG.approval.enabled) {
+      if (!options.approve) {
+        throw new ExecutionError(
+          `${request.method} ${toolName} needs the user's approval, but no approver is available`,
+          { tool: toolName, method: request.method }
+        )
+      }
+      await options.approve(step, request)
+      approval = 'approved'
+    }
+
+    // Retries count against the rate limit too
+    let throttledMs = 0
+    const { status, body, attempts } = await this.httpClient.send(
+      authorizeRequest(request, buildAuthValues(definition.auth, this.env)),
+      options.signal,
+      async () => {
+        throttledMs += await this.rateLimiter.acquire(
+          specId,
+          request.url,
+          options.signal,
+          options.onThrottle
+        )
+      }
+    )
+    if (cache && cacheKey) {
+      await cache.put(cacheKey, specId, entry.operationId, status, body)
+    }
+    return {
+      body,
+      request,
+      status,
+      attempts,
+      cache: cache && (options.bypassCache ? 'bypass' : 'miss'),
+      approval,
+      throttledMs: throttledMs || undefined,
+    }
+  }
+
+  /**
+   * Looks an operation up in the given specs, in order.
+   *
+   * @param toolName - The operationId to look for
+   * @param specIds - The specs to search
+   * @returns Promise containing the operation and the spec it belongs to
+   * @throws {ExecutionError} When no spec has the operation
+   */
+  private async findTool(
     toolName: string,
-    parameters: Record<string, unknown>
-  ): Promise<unknown> {
-    const tool = this.tools.find((t) => t.name === toolName)
-    if (!tool) {
-      throw new Error(`Tool not found: ${toolName}`)
+    specIds: string[]
+  ): Promise<{ entry: OperationEntry; specId: string }> {
+    for (const specId of specIds) {
+      const entry = (await this.getOperations(specId)).get(toolName)
+      if (entry) return { entry, specId }
     }
 
-    // Deep clone the parameters to prevent mutation by the tool function
-    const clonedParameters = JSON.parse(JSON.stringify(parameters))
+    throw new ExecutionError(`Tool not found: ${toolName}`, {
+      tool: toolName,
+      apis: specIds,
+    })
+  }
+}
+
+function isPagedBody(body: unknown): body is PagedBody {
+  const page = body as PagedBody | null
+  return (
+    typeof page?.page === 'number' &&
+    typeof page.total_pages === 'number' &&
+    Array.isArray(page.results)
+  )
+}
 
-    const result = await tool.function(clonedParameters)
+// Refuses to call a tool with inputs that earlier results did not provide
+function assertResolved(step: ExecutionStep, unresolved: string[]) {
+  if (unresolved.length === 0) return
+  const references = [...new Set(unresolved)]
+  throw new ExecutionError(
+    `Step ${step.id}: could not fill in ${references.join('; ')}`,
+    { stepId: step.id, unresolved: references }
+  )
+}
 
-    // The utility function returns a string, so we need to parse it
-    try {
-      return JSON.parse(result)
-    } catch {
-      return result // Return as-is if not valid JSON
+// Undoes the URL encoding of {{placeholders}} so they stay readable
+function restorePlaceholders(url: string): string {
+  return url.replace(
+    /%7B%7B(.+?)%7D%7D/gi,
+    (_, inner: string) => `{{${decodeURIComponent(inner)}}}`
+  )
+}
+
+// Maps items with an async function, running at most `limit` at a time.
+// After the first failure no new items start (a fan-out may send approved
+// mutating calls); the ones in flight settle before it is thrown.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  let failure: { error: unknown } | undefined
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index])
+      } catch (error) {
+        failure ??= { error }
+      }
     }
   }
+
+  await Promise.allSettled(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  )
+  if (failure) throw failure.error
+  return results
 }
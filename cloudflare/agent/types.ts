@@ -1,7 +1,102 @@
+import { ModelOverrides } from './config'
+
 export interface Env {
   AI: Ai
   TMDB_API_KEY: string
   TMDB_API_TOKEN: string
+  /** Optional JSON array of additional API specs to register at startup */
+  ORCHESTRAPI_SPECS?: string
+  /** Optional R2 bucket backing the AutoRAG index, written by spec ingestion */
+  RAG_BUCKET?: R2Bucket
+  /** Optional Vectorize index written by spec ingestion and searched by RAG */
+  RAG_VECTORIZE?: Vectorize
+  /** KV namespace holding the chunk manifest of the Vectorize index */
+  RAG_MANIFEST?: KVNamespace
+  /** Optional `record` or `replay` of upstream HTTP traffic */
+  HTTP_FIXTURES?: string
+  /** Fixture file to record to or replay from (default `default`) */
+  HTTP_FIXTURES_NAME?: string
+  /** R2 bucket holding the HTTP fixture files */
+  HTTP_FIXTURES_BUCKET?: R2Bucket
+  /** `true` sends API calls to the mock API server */
+  MOCK_APIS?: string
+  /** API key of the `openai` LLM provider */
+  OPENAI_API_KEY?: string
+  /** Base URL and optional key of the `local` OpenAI-compatible provider */
+  LLM_BASE_URL?: string
+  LLM_API_KEY?: string
+}
+
+export interface OpenAPIParameter {
+  name: string
+  in: string
+  required?: boolean
+  description?: string
+  schema?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export interface OpenAPIOperation {
+  operationId: string
+  summary?: string
+  description?: string
+  tags?: string[]
+  parameters?: OpenAPIParameter[]
+  requestBody?: unknown
+  responses?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export interface OpenAPISpec {
+  openapi?: string
+  info?: { title?: string; version?: string; [key: string]: unknown }
+  servers?: Array<{ url: string; [key: string]: unknown }>
+  paths: Record<string, Record<string, OpenAPIOperation>>
+  components?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export type ApiAuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer'; tokenEnv: string }
+  | { type: 'header'; name: string; valueEnv: string }
+  | { type: 'query'; name: string; valueEnv: string }
+
+export interface SpecUpload {
+  id: string
+  name: string
+  baseUrl: string
+  auth: ApiAuthConfig
+  foundationalTools: string[]
+  ragIndexName?: string
+  document: OpenAPISpec
+}
+
+export interface ApiSpecDefinition {
+  id: string
+  name: string
+  source: 'builtin' | 'env' | 'stored'
+  baseUrl: string
+  auth: ApiAuthConfig
+  foundationalTools: string[]
+  ragIndexName?: string
+  loadSpec: () => Promise<OpenAPISpec>
+}
+
+export type TurnStatus = 'completed' | 'cancelled'
+
+/**
+ * Per-request options for a workflow run
+ */
+export interface WorkflowOptions {
+  // Aborted when the client cancels the request
+  signal?: AbortSignal
+  // Skip the response cache and call the APIs directly
+  bypassCache?: boolean
+  // Plan and resolve the requests without calling the APIs
+  dryRun?: boolean
+  // Per-request model settings, already checked against the allowlist
+  models?: ModelOverrides
 }
 
 export interface ConversationTurn {
@@ -10,18 +105,32 @@ export interface ConversationTurn {
   content: unknown
   timestamp: number
   trace?: ReasoningTrace
+  status?: TurnStatus
 }
 
 export interface ReasoningTrace {
-  ragChunks?: Array<{ id: string; text: string; score: number }>
+  ragChunks?: Array<{
+    id: string
+    text: string
+    score: number
+    explanation?: string
+  }>
   searchQuery?: string
   planningSteps?: string[]
   toolCalls?: Array<{ name: string; args: unknown; result?: unknown }>
   executionTrace?: Array<{
     step: string
-    status: 'pending' | 'running' | 'completed' | 'error'
+    status: 'pending' | 'running' | 'completed' | 'error' | 'skipped'
     details?: unknown
   }>
+  resultShaping?: { tokens: number; omitted: string[] }
+  dryRun?: DryRunStep[]
+  failures?: StepFailure[]
+  planRevisions?: Array<{
+    revision: number
+    issues: string[]
+    plan: ExecutionPlan
+  }>
 }
 
 export interface ThreadMetadata {
@@ -36,6 +145,15 @@ export interface ExecutionStep {
   tool: string
   parameters: Record<string, unknown>
   depends_on?: string[]
+  api?: string
+  // Runs the step once per item of a list, e.g. '{{step1.results}}'
+  for_each?: string
+  max_items?: number
+  // Fetches further pages of a paged list endpoint, merging their results
+  max_pages?: number
+  min_results?: number
+  // Fields of the result the answer needs, e.g. ['results.title']
+  select?: string[]
 }
 
 export interface ExecutionPlan {
@@ -44,6 +162,50 @@ export interface ExecutionPlan {
   expected_outcome: string
 }
 
+/**
+ * A plan step that produced no result
+ *
+ * Either the step itself failed (`error`, with the upstream `status` and
+ * `body` when the API answered), or it was skipped because a step it
+ * depends on failed (`blockedBy`).
+ */
+export interface StepFailure {
+  stepId: string
+  tool: string
+  description: string
+  error: string
+  status?: number
+  body?: unknown
+  blockedBy?: string[]
+}
+
+/**
+ * What the planner is told about a plan that did not work out
+ */
+export interface PlanObservation {
+  plan: ExecutionPlan
+  // Results of the steps that succeeded, shaped to fit the prompt
+  results: Record<string, unknown>
+  // Why the plan needs revising, one line per problem
+  issues: string[]
+}
+
+export interface ApiRequest {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body?: string
+}
+
+export interface HttpAttempt {
+  attempt: number
+  status?: number
+  error?: string
+  durationMs: number
+  // How long the client waited before the next attempt
+  retryDelayMs?: number
+}
+
 export interface HistoryRow {
   id: string
   threadId: string
@@ -51,6 +213,7 @@ export interface HistoryRow {
   content: string
   timestamp: number
   trace?: string
+  status?: TurnStatus
 }
 
 export interface ThreadRow {
@@ -58,3 +221,74 @@ export interface ThreadRow {
   title: string
   lastUpdated: number
 }
+
+export interface SpecRow {
+  id: string
+  name: string
+  baseUrl: string
+  auth: string
+  foundationalTools: string
+  ragIndexName: string | null
+  document: string
+  updatedAt: number
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired'
+
+/**
+ * A plan step resolved into the HTTP request it would send
+ *
+ * Values that depend on earlier steps stay symbolic, e.g.
+ * `{{step1.results.0.id}}`.
+ */
+export interface DryRunStep {
+  stepId: string
+  tool: string
+  description: string
+  dependsOn: string[]
+  forEach?: string
+  method?: string
+  url?: string
+  query?: Record<string, string>
+  body?: unknown
+  curl?: string
+  // Set for local data tools, which send no request
+  local?: boolean
+  // Placeholders filled in from earlier results at execution time
+  placeholders: string[]
+  // Why the step could not be resolved
+  error?: string
+}
+
+export interface ApprovalRow {
+  id: string
+  threadId: string
+  stepId: string
+  tool: string
+  // The request as it will be sent (JSON ApiRequest, minus credentials)
+  request: string
+  status: ApprovalStatus
+  createdAt: number
+  resolvedAt?: number | null
+}
+
+/**
+ * Payload of the `approval_required` stream event
+ */
+export interface ApprovalRequest {
+  approvalId: string
+  stepId: string
+  tool: string
+  description: string
+  request: ApiRequest
+}
+
+export interface CachedResponseRow {
+  key: string
+  specId: string
+  operationId: string
+  status: number
+  body: string
+  createdAt: number
+  expiresAt: number
+}
@@ -1,5 +1,58 @@
 import type { Message as VercelMessage } from 'ai'
+import {
+  AgentConfig,
+  DEFAULT_CONFIG,
+  MODEL_STAGES,
+  ModelOverrides,
+  ModelStage,
+} from './config'
 import { ValidationError } from './error-handling'
+import {
+  findOperation,
+  HTTP_METHODS,
+  ParameterSummary,
+  summarizeParameters,
+} from './openapi-utils'
+import { findLocalToolErrors, isLocalTool } from './local-tools'
+import { findPlanGraphErrors } from './plan-graph'
+import { findTemplateErrors, templateReferences } from './template'
+import {
+  ApiAuthConfig,
+  ExecutionPlan,
+  ExecutionStep,
+  OpenAPISpec,
+  SpecUpload,
+} from './types'
+
+// Keys a plan step's parameters may be nested under
+const PARAMETER_LOCATIONS = ['path', 'query', 'body']
+
+// Describes why a literal parameter value doesn't fit its declared type
+function checkParameterValue(
+  value: unknown,
+  param: ParameterSummary
+): string | undefined {
+  // Placeholders are resolved at execution time
+  if (typeof value === 'string' && value.includes('{{')) return undefined
+
+  const text = String(value)
+  if (param.type.startsWith('integer') && !/^-?\d+$/.test(text)) {
+    return `must be an integer, got ${JSON.stringify(value)}`
+  }
+  if (
+    param.type.startsWith('number') &&
+    (text.trim() === '' || isNaN(Number(text)))
+  ) {
+    return `must be a number, got ${JSON.stringify(value)}`
+  }
+  if (param.type.startsWith('boolean') && !/^(true|false)$/.test(text)) {
+    return `must be true or false, got ${JSON.stringify(value)}`
+  }
+  if (param.enum && !param.enum.map(String).includes(text)) {
+    return `must be one of ${param.enum.join(', ')}, got ${JSON.stringify(value)}`
+  }
+  return undefined
+}
 
 export interface ValidationResult {
   isValid: boolean
@@ -61,7 +114,33 @@ export class RequestValidator {
     return { threadId, lastUserMessage: lastUserMessage!, fullMessages }
   }
 
-  static validateExecutionPlan(plan: Record<string, unknown>): boolean {
+  /**
+   * Validates an execution plan before it runs
+   *
+   * Besides the plan's shape, this checks the `depends_on` graph (unknown
+   * steps, cycles) and that every `{{stepX...}}` reference points to a step
+   * that is guaranteed to run first. Steps using a local data tool must
+   * pass that tool's parameters. When specs are given, every other step's
+   * tool must be one of their operations, and its required path and query
+   * parameters must be present, in the right location and of the right
+   * type, and paginated steps must use an operation with a `page` parameter.
+   *
+   * @param plan - The plan to validate
+   * @param specs - The OpenAPI documents the plan may use, keyed by API ID
+   * @returns True if the plan is valid
+   * @throws {ValidationError} With every problem found in `details.errors`
+   *
+   * @example
+   * ```typescript
+   * RequestValidator.validateExecutionPlan(plan, { tmdb: tmdbOpenApi })
+   * // ValidationError: Invalid execution plan
+   * // details.errors: ['Step step2: movie_id is a path parameter; move it to parameters.path']
+   * ```
+   */
+  static validateExecutionPlan(
+    plan: Record<string, unknown>,
+    specs: Record<string, OpenAPISpec> = {}
+  ): boolean {
     const errors: string[] = []
 
     if (!plan || typeof plan !== 'object') {
@@ -91,6 +170,35 @@ export class RequestValidator {
         if (!step.parameters || typeof step.parameters !== 'object') {
           errors.push(`Step ${i} must have parameters`)
         }
+        for (const key of ['max_items', 'max_pages', 'min_results']) {
+          const value = step[key]
+          if (
+            value !== undefined &&
+            (!Number.isInteger(value) || (value as number) < 1)
+          ) {
+            errors.push(`Step ${i}: ${key} must be a positive integer`)
+          }
+        }
+        if (
+          step.select !== undefined &&
+          (!Array.isArray(step.select) ||
+            step.select.some((field) => typeof field !== 'string'))
+        ) {
+          errors.push(`Step ${i}: select must be a list of field paths`)
+        }
+      }
+    }
+
+    if (errors.length === 0) {
+      const executionPlan = plan as unknown as ExecutionPlan
+      errors.push(...findPlanGraphErrors(executionPlan))
+      errors.push(...this.validateStepReferences(executionPlan))
+      for (const step of executionPlan.steps) {
+        if (isLocalTool(step.tool)) {
+          errors.push(...findLocalToolErrors(step))
+        } else if (Object.keys(specs).length > 0) {
+          errors.push(...this.validateStepAgainstSpecs(step, specs))
+        }
       }
     }
 
@@ -121,4 +229,455 @@ export class RequestValidator {
 
     return true
   }
+
+  /**
+   * Checks the per-request model overrides of a chat request
+   *
+   * `{ "planning": { "model": "...", "temperature": 0.2 } }` switches a
+   * stage to an allowlisted model (of another provider when `provider` is
+   * given) or changes its settings; maxTokens and maxRetries may only be
+   * lowered. Stages disabled in the config cannot be overridden.
+   *
+   * @param value - The `models` field of the request body
+   * @param config - The stage settings and model allowlist
+   * @returns The overrides, empty when none were sent
+   * @throws {ValidationError} When a stage, model or setting is not allowed
+   */
+  static validateModelOverrides(
+    value: unknown,
+    config: AgentConfig['ai'] = DEFAULT_CONFIG.ai
+  ): ModelOverrides {
+    if (value === undefined || value === null) return {}
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError('Invalid model overrides', {
+        errors: ['models must be an object keyed by stage'],
+      })
+    }
+
+    const errors: string[] = []
+    const overrides: ModelOverrides = {}
+    for (const [stage, settings] of Object.entries(value)) {
+      if (!MODEL_STAGES.includes(stage as ModelStage)) {
+        errors.push(
+          `Unknown model stage ${stage}; use one of ${MODEL_STAGES.join(', ')}`
+        )
+        continue
+      }
+      if (
+        !settings ||
+        typeof settings !== 'object' ||
+        Array.isArray(settings)
+      ) {
+        errors.push(`models.${stage} must be an object`)
+        continue
+      }
+
+      const limits = config.stages[stage as ModelStage]
+      // Requests can't turn on an optional stage, so its settings would be lost
+      if (limits.enabled === false) {
+        errors.push(
+          `models.${stage} cannot be overridden: the stage is disabled in AgentConfig.ai.stages`
+        )
+        continue
+      }
+      const { provider, model, temperature, maxTokens, maxRetries, ...rest } =
+        settings as Record<string, unknown>
+      for (const key of Object.keys(rest)) {
+        errors.push(`models.${stage}.${key} cannot be overridden`)
+      }
+      if (
+        provider !== undefined &&
+        (typeof provider !== 'string' || !config.providers[provider])
+      ) {
+        errors.push(
+          `models.${stage}.provider must be one of ${Object.keys(config.providers).join(', ')}`
+        )
+      } else if (provider !== undefined && model === undefined) {
+        errors.push(`models.${stage}.model is needed to switch provider`)
+      }
+      const allowed =
+        config.allowedModels[
+          (provider as string | undefined) ?? limits.provider
+        ] ?? []
+      if (
+        model !== undefined &&
+        (typeof model !== 'string' ||
+          !(allowed.includes('*') || allowed.includes(model)))
+      ) {
+        errors.push(
+          allowed.length
+            ? `models.${stage}.model must be one of ${allowed.join(', ')}`
+            : `models.${stage}.model cannot be overridden for this provider`
+        )
+      }
+      if (
+        temperature !== undefined &&
+        (typeof temperature !== 'number' || temperature < 0 || temperature > 2)
+      ) {
+        errors.push(`models.${stage}.temperature must be between 0 and 2`)
+      }
+      if (
+        maxTokens !== undefined &&
+        (!Number.isInteger(maxTokens) ||
+          (maxTokens as number) < 1 ||
+          (maxTokens as number) > limits.maxTokens)
+      ) {
+        errors.push(
+          `models.${stage}.maxTokens must be an integer from 1 to ${limits.maxTokens}`
+        )
+      }
+      if (
+        maxRetries !== undefined &&
+        (!Number.isInteger(maxRetries) ||
+          (maxRetries as number) < 0 ||
+          (maxRetries as number) > limits.maxRetries)
+      ) {
+        errors.push(
+          `models.${stage}.maxRetries must be an integer from 0 to ${limits.maxRetries}`
+        )
+      }
+
+      overrides[stage as ModelStage] = Object.fromEntries(
+        Object.entries({
+          provider,
+          model,
+          temperature,
+          maxTokens,
+          maxRetries,
+        }).filter(([, setting]) => setting !== undefined)
+      )
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid model overrides', { errors })
+    }
+    return overrides
+  }
+
+  static validateSpecUpload(body: Record<string, unknown>): SpecUpload {
+    const errors: string[] = []
+
+    const id = body.id
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,63}$/.test(id)) {
+      errors.push(
+        'id must be 1-64 lowercase letters, digits, "-" or "_" characters'
+      )
+    }
+
+    const baseUrl = body.baseUrl
+    if (typeof baseUrl !== 'string' || !/^https?:\/\//.test(baseUrl)) {
+      errors.push('baseUrl must be an http(s) URL')
+    } else {
+      try {
+        new URL(baseUrl)
+      } catch {
+        errors.push('baseUrl must be an http(s) URL')
+      }
+    }
+
+    const auth = (body.auth ?? { type: 'none' }) as ApiAuthConfig
+    errors.push(...this.validateAuth(auth))
+
+    const document = body.spec as OpenAPISpec
+    const operationIds = new Set<string>()
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      errors.push('spec must be an OpenAPI document object')
+    } else {
+      errors.push(...this.validateOpenApiDocument(document, operationIds))
+      if (
+        JSON.stringify(document).length > DEFAULT_CONFIG.specs.maxDocumentBytes
+      ) {
+        errors.push(
+          `spec must be smaller than ${DEFAULT_CONFIG.specs.maxDocumentBytes} bytes`
+        )
+      }
+    }
+
+    const foundationalTools = body.foundationalTools ?? []
+    if (
+      !Array.isArray(foundationalTools) ||
+      foundationalTools.some((t) => typeof t !== 'string')
+    ) {
+      errors.push('foundationalTools must be an array of operationIds')
+    } else if (operationIds.size > 0) {
+      for (const tool of foundationalTools as string[]) {
+        if (!operationIds.has(tool)) {
+          errors.push(`Foundational tool ${tool} is not an operation of spec`)
+        }
+      }
+    }
+
+    if (body.ragIndexName != null && typeof body.ragIndexName !== 'string') {
+      errors.push('ragIndexName must be a string')
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid spec upload', { errors })
+    }
+
+    return {
+      id: id as string,
+      name:
+        typeof body.name === 'string' && body.name ? body.name : (id as string),
+      baseUrl: (baseUrl as string).replace(/\/$/, ''),
+      auth,
+      foundationalTools: foundationalTools as string[],
+      ragIndexName: (body.ragIndexName as string | undefined) || undefined,
+      document,
+    }
+  }
+
+  private static validateStepReferences(plan: ExecutionPlan): string[] {
+    const errors: string[] = []
+    const stepMap = new Map(plan.steps.map((step) => [step.id, step]))
+
+    // Steps that always complete before the given one
+    const ancestors = (stepId: string, seen = new Set<string>()) => {
+      for (const dependency of stepMap.get(stepId)?.depends_on || []) {
+        if (seen.has(dependency)) continue
+        seen.add(dependency)
+        ancestors(dependency, seen)
+      }
+      return seen
+    }
+
+    for (const step of plan.steps) {
+      const before = ancestors(step.id)
+      errors.push(
+        ...findTemplateErrors([step.parameters, step.for_each]).map(
+          (error) => `Step ${step.id}: ${error}`
+        )
+      )
+      const references = [
+        ...templateReferences(step.parameters).map((ref) => ({
+          ref,
+          inForEach: false,
+        })),
+        ...templateReferences(step.for_each).map((ref) => ({
+          ref,
+          inForEach: true,
+        })),
+      ]
+
+      for (const { ref, inForEach } of references) {
+        if (ref === 'item') {
+          if (!step.for_each || inForEach) {
+            errors.push(
+              `Step ${step.id}: {{item}} can only be used in the parameters of a step with for_each`
+            )
+          }
+        } else if (!stepMap.has(ref)) {
+          errors.push(`Step ${step.id} references ${ref}, which is not a step`)
+        } else if (!before.has(ref)) {
+          errors.push(
+            `Step ${step.id} references ${ref}, which does not run before it; add ${ref} to depends_on`
+          )
+        }
+      }
+    }
+
+    return errors
+  }
+
+  private static validateStepAgainstSpecs(
+    step: ExecutionStep,
+    specs: Record<string, OpenAPISpec>
+  ): string[] {
+    if (step.api && !specs[step.api]) {
+      return [`Step ${step.id}: unknown api ${step.api}`]
+    }
+    const candidates = step.api ? [specs[step.api]] : Object.values(specs)
+
+    for (const spec of candidates) {
+      const entry = findOperation(spec, step.tool)
+      if (entry) {
+        return this.validateStepParameters(
+          step,
+          summarizeParameters(spec, entry)
+        )
+      }
+    }
+    return [
+      `Step ${step.id}: ${step.tool} is not an operationId in the API documentation`,
+    ]
+  }
+
+  private static validateStepParameters(
+    step: ExecutionStep,
+    parameters: ParameterSummary[]
+  ): string[] {
+    const errors: string[] = []
+    const prefix = `Step ${step.id} (${step.tool})`
+
+    for (const key of Object.keys(step.parameters)) {
+      if (!PARAMETER_LOCATIONS.includes(key)) {
+        errors.push(
+          `${prefix}: parameters must be nested under ${PARAMETER_LOCATIONS.join(', ')}; found ${key}`
+        )
+      }
+    }
+
+    for (const location of ['path', 'query']) {
+      const given = (step.parameters[location] || {}) as Record<string, unknown>
+      const declared = parameters.filter((param) => param.in === location)
+
+      for (const param of declared) {
+        const value = given[param.name]
+        if (value === undefined) {
+          // A misplaced parameter is reported where it was found instead
+          const misplaced = PARAMETER_LOCATIONS.some(
+            (other) =>
+              other !== location &&
+              (step.parameters[other] as Record<string, unknown>)?.[
+                param.name
+              ] !== undefined
+          )
+          if (param.required && !misplaced) {
+            errors.push(
+              `${prefix}: missing required ${location} parameter ${param.name}`
+            )
+          }
+          continue
+        }
+        const typeError = checkParameterValue(value, param)
+        if (typeError) errors.push(`${prefix}: ${param.name} ${typeError}`)
+      }
+
+      for (const name of Object.keys(given)) {
+        if (declared.some((param) => param.name === name)) continue
+        const elsewhere = parameters.find((param) => param.name === name)
+        errors.push(
+          elsewhere
+            ? `${prefix}: ${name} is a ${elsewhere.in} parameter; move it to parameters.${elsewhere.in}`
+            : `${prefix}: unknown ${location} parameter ${name}`
+        )
+      }
+    }
+
+    const paginated =
+      step.max_pages !== undefined || step.min_results !== undefined
+    if (
+      paginated &&
+      !parameters.some((param) => param.in === 'query' && param.name === 'page')
+    ) {
+      errors.push(
+        `${prefix}: max_pages and min_results need an operation with a query.page parameter`
+      )
+    }
+
+    return errors
+  }
+
+  private static validateAuth(auth: ApiAuthConfig): string[] {
+    // Uploaded specs may only read secrets set aside for them, so a spec
+    // pointing at a foreign host can't be used to leak e.g. TMDB_API_TOKEN
+    const prefix = DEFAULT_CONFIG.specs.uploadSecretPrefix
+    const secretName = (name: unknown, field: string) =>
+      typeof name === 'string' && name.startsWith(prefix)
+        ? []
+        : [
+            `auth.${field} must name an environment variable starting with ${prefix}`,
+          ]
+
+    switch (auth?.type) {
+      case 'none':
+        return []
+      case 'bearer':
+        return secretName(auth.tokenEnv, 'tokenEnv')
+      case 'header':
+      case 'query':
+        return [
+          ...(typeof auth.name === 'string' && auth.name
+            ? []
+            : ['auth.name is required']),
+          ...secretName(auth.valueEnv, 'valueEnv'),
+        ]
+      default:
+        return ['auth.type must be one of none, bearer, header or query']
+    }
+  }
+
+  private static validateOpenApiDocument(
+    document: OpenAPISpec,
+    operationIds: Set<string>
+  ): string[] {
+    const errors: string[] = []
+
+    if (
+      typeof document.openapi !== 'string' ||
+      !document.openapi.startsWith('3.')
+    ) {
+      errors.push('spec.openapi must be a 3.x version string')
+    }
+
+    if (
+      !document.paths ||
+      typeof document.paths !== 'object' ||
+      Object.keys(document.paths).length === 0
+    ) {
+      errors.push('spec.paths must contain at least one path')
+      return errors
+    }
+
+    const componentParameters = ((
+      document.components as Record<string, unknown> | undefined
+    )?.parameters ?? {}) as Record<string, { name?: string; in?: string }>
+
+    for (const path in document.paths) {
+      if (!path.startsWith('/')) {
+        errors.push(`Path ${path} must start with "/"`)
+      }
+      const pathItem = document.paths[path] || {}
+      const templateParams = [...path.matchAll(/\{([^}]+)\}/g)].map((m) => m[1])
+
+      for (const method in pathItem) {
+        if (!(HTTP_METHODS as readonly string[]).includes(method)) continue
+        const operation = pathItem[method]
+        const label = `${method.toUpperCase()} ${path}`
+
+        if (
+          !operation?.operationId ||
+          typeof operation.operationId !== 'string'
+        ) {
+          errors.push(`${label} must have an operationId`)
+        } else if (operationIds.has(operation.operationId)) {
+          errors.push(`Duplicate operationId ${operation.operationId}`)
+        } else {
+          operationIds.add(operation.operationId)
+        }
+
+        const parameters = [
+          ...(((pathItem as Record<string, unknown>).parameters as unknown[]) ||
+            []),
+          ...(operation?.parameters || []),
+        ].map((param) => {
+          const ref = (param as { $ref?: string })?.$ref
+          return ref?.startsWith('#/components/parameters/')
+            ? componentParameters[ref.split('/').pop()!]
+            : (param as { name?: string; in?: string })
+        })
+
+        for (const param of parameters) {
+          if (
+            !param?.name ||
+            !['path', 'query', 'header', 'cookie'].includes(param.in || '')
+          ) {
+            errors.push(`${label} has a parameter without a valid name and in`)
+          }
+        }
+
+        for (const name of templateParams) {
+          if (!parameters.some((p) => p?.in === 'path' && p.name === name)) {
+            errors.push(`${label} does not declare path parameter ${name}`)
+          }
+        }
+      }
+    }
+
+    if (operationIds.size === 0) {
+      errors.push('spec must define at least one operation')
+    }
+
+    return errors
+  }
 }
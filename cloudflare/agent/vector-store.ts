@@ -0,0 +1,269 @@
+import { DEFAULT_CONFIG } from './config'
+import { AgentError } from './error-handling'
+import { SpecChunk } from './spec-chunker'
+import { Env } from './types'
+
+/**
+ * A chunk found by a vector search, shaped like an AutoRAG result
+ */
+export interface VectorSearchResult {
+  id: string
+  score: number
+  content: Array<{ type: 'text'; text: string }>
+}
+
+/**
+ * Destination for spec chunks produced by the ingestion pipeline
+ *
+ * Stores write and delete chunks and report what they hold (the chunk
+ * hashes per spec), so every session sees the same manifest as the shared
+ * store. Stores that can be queried directly implement `search`; chunks
+ * written to the R2 bucket are searched through AutoRAG instead.
+ */
+export interface VectorStore {
+  readonly name: string
+  upsert(chunks: SpecChunk[]): Promise<void>
+  delete(chunkIds: string[]): Promise<void>
+  // Chunk ID -> hash of every chunk stored for a spec
+  manifest(specId: string): Promise<Map<string, string>>
+  search?(
+    query: string,
+    specId: string,
+    options: { maxResults: number; scoreThreshold: number }
+  ): Promise<VectorSearchResult[]>
+}
+
+/**
+ * Writes chunks as markdown objects into the R2 bucket backing an AutoRAG
+ * index. AutoRAG picks up the changes on its next sync.
+ */
+export class R2DocumentStore implements VectorStore {
+  readonly name = 'r2'
+
+  constructor(private bucket: R2Bucket) {}
+
+  async upsert(chunks: SpecChunk[]) {
+    await Promise.all(
+      chunks.map((chunk) =>
+        this.bucket.put(this.key(chunk.id), chunk.text, {
+          httpMetadata: { contentType: 'text/markdown' },
+          customMetadata: {
+            chunkId: chunk.id,
+            specId: chunk.specId,
+            operationId: chunk.operationId,
+            hash: chunk.hash,
+          },
+        })
+      )
+    )
+  }
+
+  async delete(chunkIds: string[]) {
+    if (chunkIds.length === 0) return
+    await this.bucket.delete(chunkIds.map((id) => this.key(id)))
+  }
+
+  // The objects are the manifest: their metadata carries the chunk hash
+  async manifest(specId: string): Promise<Map<string, string>> {
+    const manifest = new Map<string, string>()
+    let cursor: string | undefined
+    do {
+      const page = await this.bucket.list({
+        prefix: `${specId}/`,
+        cursor,
+        include: ['customMetadata'],
+      } as R2ListOptions)
+      for (const object of page.objects) {
+        const metadata = object.customMetadata ?? {}
+        manifest.set(
+          metadata.chunkId ?? this.chunkId(object.key),
+          metadata.hash ?? ''
+        )
+      }
+      cursor = page.truncated ? page.cursor : undefined
+    } while (cursor)
+    return manifest
+  }
+
+  // One object per chunk: tmdb/movie-details#0 -> tmdb/movie-details.0.md
+  private key(chunkId: string): string {
+    return chunkId.replace('#', '.') + '.md'
+  }
+
+  private chunkId(key: string): string {
+    return key.replace(/\.md$/, '').replace(/\.(\d+)$/, '#$1')
+  }
+}
+
+/**
+ * Embeds chunks with Workers AI and writes them to a Vectorize index
+ *
+ * Each spec's chunks live in a Vectorize namespace named after the spec,
+ * so searches stay within one API. Vectorize cannot list its vectors, so
+ * the manifest is kept in a KV namespace shared by every session.
+ */
+export class VectorizeStore implements VectorStore {
+  readonly name = 'vectorize'
+
+  constructor(
+    private index: Vectorize,
+    private ai: Ai,
+    private manifests: KVNamespace,
+    private model: string = DEFAULT_CONFIG.rag.embeddingModel
+  ) {}
+
+  async upsert(chunks: SpecChunk[]) {
+    // Workers AI embeds at most 100 texts per call
+    for (let i = 0; i < chunks.length; i += 100) {
+      const batch = chunks.slice(i, i + 100)
+      const embeddings = await this.embed(batch.map((chunk) => chunk.text))
+
+      await this.index.upsert(
+        await Promise.all(
+          batch.map(async (chunk, j) => ({
+            id: await this.vectorId(chunk.id),
+            namespace: chunk.specId,
+            values: embeddings[j],
+            metadata: {
+              chunkId: chunk.id,
+              specId: chunk.specId,
+              operationId: chunk.operationId,
+              hash: chunk.hash,
+              text: chunk.text,
+            },
+          }))
+        )
+      )
+    }
+
+    await this.updateManifests(chunks.map((chunk) => [chunk.id, chunk.hash]))
+  }
+
+  async delete(chunkIds: string[]) {
+    if (chunkIds.length === 0) return
+    await this.index.deleteByIds(
+      await Promise.all(chunkIds.map((id) => this.vectorId(id)))
+    )
+    await this.updateManifests(chunkIds.map((id) => [id, undefined]))
+  }
+
+  async manifest(specId: string): Promise<Map<string, string>> {
+    const stored = await this.manifests.get<Record<string, string>>(
+      this.manifestKey(specId),
+      'json'
+    )
+    return new Map(Object.entries(stored ?? {}))
+  }
+
+  async search(
+    query: string,
+    specId: string,
+    options: { maxResults: number; scoreThreshold: number }
+  ): Promise<VectorSearchResult[]> {
+    const [vector] = await this.embed([query])
+    const { matches } = await this.index.query(vector, {
+      topK: options.maxResults,
+      namespace: specId,
+      returnMetadata: 'all',
+    })
+    return matches
+      .filter((match) => match.score >= options.scoreThreshold)
+      .map((match) => ({
+        id: String(match.metadata?.chunkId ?? match.id),
+        score: match.score,
+        content: [{ type: 'text', text: String(match.metadata?.text ?? '') }],
+      }))
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    const embeddings = (await this.ai.run(
+      this.model as '@cf/baai/bge-base-en-v1.5',
+      { text: texts }
+    )) as { data: number[][] }
+    return embeddings.data
+  }
+
+  // Sets (or, for undefined, removes) chunk hashes, spec by spec
+  private async updateManifests(entries: Array<[string, string | undefined]>) {
+    const bySpec = new Map<string, Array<[string, string | undefined]>>()
+    for (const entry of entries) {
+      const specId = entry[0].split('/')[0]
+      bySpec.set(specId, [...(bySpec.get(specId) ?? []), entry])
+    }
+    for (const [specId, changes] of bySpec) {
+      const manifest = await this.manifest(specId)
+      for (const [chunkId, hash] of changes) {
+        if (hash === undefined) manifest.delete(chunkId)
+        else manifest.set(chunkId, hash)
+      }
+      await this.manifests.put(
+        this.manifestKey(specId),
+        JSON.stringify(Object.fromEntries(manifest))
+      )
+    }
+  }
+
+  private manifestKey(specId: string): string {
+    return `rag-manifest/${this.name}/${specId}`
+  }
+
+  // Vectorize IDs are limited to 64 bytes, so long chunk IDs are hashed
+  private async vectorId(chunkId: string): Promise<string> {
+    if (new TextEncoder().encode(chunkId).length <= 64) return chunkId
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(chunkId)
+    )
+    return [...new Uint8Array(digest)]
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('')
+  }
+}
+
+/**
+ * Keeps chunks in memory; useful for local development and dry runs
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory'
+  readonly chunks = new Map<string, SpecChunk>()
+
+  async upsert(chunks: SpecChunk[]) {
+    for (const chunk of chunks) this.chunks.set(chunk.id, chunk)
+  }
+
+  async delete(chunkIds: string[]) {
+    for (const id of chunkIds) this.chunks.delete(id)
+  }
+
+  async manifest(specId: string): Promise<Map<string, string>> {
+    return new Map(
+      [...this.chunks.values()]
+        .filter((chunk) => chunk.specId === specId)
+        .map((chunk) => [chunk.id, chunk.hash])
+    )
+  }
+}
+
+/**
+ * Picks the vector store for the bindings available in the environment
+ *
+ * Prefers a Vectorize index (with its `RAG_MANIFEST` KV namespace), then
+ * the R2 bucket behind AutoRAG.
+ *
+ * @param env - The environment object
+ * @returns The vector store, or undefined if no binding is configured
+ * @throws {AgentError} When Vectorize is bound without a manifest namespace
+ */
+export function createVectorStore(env: Env): VectorStore | undefined {
+  if (env.RAG_VECTORIZE) {
+    if (!env.RAG_MANIFEST) {
+      throw new AgentError(
+        'RAG_VECTORIZE needs a RAG_MANIFEST KV namespace for its chunk manifest',
+        'CONFIGURATION_ERROR'
+      )
+    }
+    return new VectorizeStore(env.RAG_VECTORIZE, env.AI, env.RAG_MANIFEST)
+  }
+  if (env.RAG_BUCKET) return new R2DocumentStore(env.RAG_BUCKET)
+  return undefined
+}
@@ -0,0 +1,98 @@
+import { ToolCallContentPartComponent } from '@assistant-ui/react'
+import { CheckIcon, ShieldAlertIcon, XIcon } from 'lucide-react'
+import { useState } from 'react'
+import { Button } from '../ui/button'
+
+interface ApprovalArgs {
+  approvalId: string
+  stepId: string
+  tool: string
+  description: string
+  request: { method: string; url: string; body?: string }
+}
+
+interface ApprovalResult {
+  status: 'approved' | 'rejected' | 'expired'
+}
+
+const STATUS_LABELS: Record<ApprovalResult['status'], string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  expired: 'Expired without an answer',
+}
+
+// Approve/reject controls for an API call that would change data
+export const ApprovalRequest: ToolCallContentPartComponent<
+  ApprovalArgs,
+  ApprovalResult
+> = ({ args, result }) => {
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const answer = async (approved: boolean) => {
+    setSubmitting(true)
+    setError(undefined)
+    try {
+      const response = await fetch(
+        `/api/approvals/${encodeURIComponent(args.approvalId)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ approved }),
+        }
+      )
+      if (!response.ok) {
+        const body = (await response.json().catch(() => undefined)) as
+          { error?: { message?: string } } | undefined
+        throw new Error(body?.error?.message ?? `HTTP ${response.status}`)
+      }
+      // The run reports the outcome on the stream, which sets `result`
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mb-4 flex w-full flex-col gap-3 rounded-lg border border-amber-500/50 py-3">
+      <div className="flex items-center gap-2 px-4">
+        <ShieldAlertIcon className="size-4 text-amber-600" />
+        <p>
+          Approval required: <b>{args.tool}</b>
+        </p>
+      </div>
+      <div className="flex flex-col gap-2 border-t px-4 pt-2 text-sm">
+        <p>{args.description}</p>
+        <pre className="whitespace-pre-wrap break-all">
+          {args.request?.method} {args.request?.url}
+        </pre>
+        {args.request?.body && (
+          <pre className="whitespace-pre-wrap break-all">
+            {args.request.body}
+          </pre>
+        )}
+      </div>
+      <div className="flex items-center gap-2 px-4">
+        {result ? (
+          <p className="text-muted-foreground text-sm">
+            {STATUS_LABELS[result.status] ?? result.status}
+          </p>
+        ) : (
+          <>
+            <Button disabled={submitting} onClick={() => answer(true)}>
+              <CheckIcon /> Approve
+            </Button>
+            <Button
+              variant="outline"
+              disabled={submitting}
+              onClick={() => answer(false)}
+            >
+              <XIcon /> Reject
+            </Button>
+          </>
+        )}
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </div>
+    </div>
+  )
+}
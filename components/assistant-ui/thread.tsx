@@ -18,6 +18,7 @@ import {
 } from 'lucide-react'
 import type { FC } from 'react'
 
+import { ApprovalRequest } from '@/components/assistant-ui/approval-request'
 import { MarkdownText } from '@/components/assistant-ui/markdown-text'
 import { ReasoningPreview } from '@/components/assistant-ui/reasoning-preview'
 import { ToolFallback } from '@/components/assistant-ui/tool-fallback'
@@ -208,7 +209,10 @@ const AssistantMessage: FC = () => {
           components={{
             Text: MarkdownText,
             Reasoning: ReasoningPreview,
-            tools: { Fallback: ToolFallback },
+            tools: {
+              by_name: { approval_required: ApprovalRequest },
+              Fallback: ToolFallback,
+            },
           }}
         />
         <MessagePrimitive.If submittedFeedback={undefined}>